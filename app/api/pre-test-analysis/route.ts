@@ -0,0 +1,4 @@
+import { handleCalculation } from '@/lib/api/responses';
+import { parsePreTestAnalysisRequest, runPreTestAnalysis } from '@/lib/api/preTestAnalysis';
+
+export const POST = (request: Request) => handleCalculation(request, parsePreTestAnalysisRequest, runPreTestAnalysis);
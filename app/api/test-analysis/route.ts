@@ -0,0 +1,4 @@
+import { handleCalculation } from '@/lib/api/responses';
+import { parseTestAnalysisRequest, runTestAnalysis } from '@/lib/api/testAnalysis';
+
+export const POST = (request: Request) => handleCalculation(request, parseTestAnalysisRequest, runTestAnalysis);
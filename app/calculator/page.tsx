@@ -2,7 +2,30 @@
 
 import React, { useState, useMemo, useEffect, Suspense } from 'react';
 import styles from './Calculator.module.css';
-import { useSearchParams, useRouter } from 'next/navigation';
+import { usePathname, useSearchParams, useRouter } from 'next/navigation';
+import {
+    analyzeBayesian, analyzeSegments, analyzeTest, compareToControl, CREDIBLE_LEVEL, cumulativeSeries, cupedDataMismatch, cupedFromCorrelation, cupedFromUserData,
+    MAX_PLANNING_WEEKS, MAX_VARIANTS, parseAllocation, parseCupedData, parseDailyData, parseRawValues, parseSegmentData, planTest, projectImpact, sequentialDesign,
+    sequentialLook, summarizeValues, variantLabel, welchTTest,
+} from '@/lib/stats';
+import type {
+    AnalysisType, ArmCounts, CorrectionMethod, CupedAnalysis, Hypothesis, ImpactAmounts, Interval, IntervalMethod, MetricType, SegmentAnalysisResult, SegmentCounts,
+    SolveFor, SpendingFunction, TestAnalysisResult, TestMethodChoice, TestRecommendation,
+} from '@/lib/stats';
+import { compareSavedExperiments } from '@/lib/saved/compare';
+import type { MetricFormat, SavedMetric } from '@/lib/saved/compare';
+import {
+    createSavedExperiment, duplicateSavedExperiment, exportLibrary, mergeLibrary, parseLibrary, savedMode, searchSavedExperiments,
+    updateSavedExperiment,
+} from '@/lib/saved/library';
+import type { SavedDetails, SavedExperiment } from '@/lib/saved/library';
+import { cupedText, decisionText, planningReport, TEST_METHOD_LABELS, testAnalysisReport, verdictText } from '@/lib/report/report';
+import type { Report, ReportChart } from '@/lib/report/report';
+import { renderReportHtml, renderReportMarkdown } from '@/lib/report/render';
+import { encodeSharePayload, LINK_OMITTED_FIELDS, linkInputs, parseShareInputs, readShareLink } from '@/lib/share/shareLink';
+import type { SavedMode, SharedState, ShareInputs } from '@/lib/share/shareLink';
+import { checkInputs, hasErrors } from '@/lib/inputs/checks';
+import type { FieldMessage } from '@/lib/inputs/checks';
 
 // --- CUSTOM HOOK FOR LOCALSTORAGE ---
 
@@ -36,49 +59,11 @@ function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<Re
 
 // --- UTILITY FUNCTIONS ---
 
-const standardNormalCdf = (z: number): number => {
-    const p = 0.3275911;
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-
-    // escalar o z para usar na erf
-    const x = z / Math.SQRT2;
-    const sign = x >= 0 ? 1 : -1;
-    const t = 1 / (1 + p * Math.abs(x));
-
-    const poly =
-        a1 * t +
-        a2 * Math.pow(t, 2) +
-        a3 * Math.pow(t, 3) +
-        a4 * Math.pow(t, 4) +
-        a5 * Math.pow(t, 5);
-
-    const erf = 1 - poly * Math.exp(-Math.pow(x, 2));
-
-    return 0.5 * (1 + sign * erf);
-};
-
-const standardNormalInverseCdf = (p: number): number => {
-    if (p <= 0 || p >= 1) return 0;
-    const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
-    const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
-    const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
-    const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
-    if (p < 0.5) {
-        const q = Math.sqrt(-2 * Math.log(p));
-        const num = (((((a[0] * q + a[1]) * q + a[2]) * q + a[3]) * q + a[4]) * q + a[5]);
-        const den = (((((b[0] * q + b[1]) * q + b[2]) * q + b[3]) * q + b[4]) * q + 1);
-        return num / den;
-    } else {
-        const q = Math.sqrt(-2 * Math.log(1 - p));
-        const num = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]);
-        const den = ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
-        return -num / den;
-    }
-}
+type NumericInput = number | string;
+type Setter<T> = React.Dispatch<React.SetStateAction<T>>;
+
+// Blank inputs are left out rather than read as 0
+const optionalNumber = (value: NumericInput | undefined) => (value === undefined || value === '' ? undefined : Number(value));
 
 const formatPercentage = (value: number | null | undefined) => {
     if (value === null || value === undefined || isNaN(value)) return 'N/A';
@@ -86,223 +71,1735 @@ const formatPercentage = (value: number | null | undefined) => {
     return `${(value * 100).toFixed(2)}%`;
 };
 
+const formatPValue = (value: number) => (value < 0.0001 ? '< 0.0001' : value.toFixed(4));
+
+const formatNumber = (value: number) => (Number.isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 4 }) : 'N/A');
+
+// "a, b and c"
+const listItems = (items: string[]) => (items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join(''));
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- FIELD MESSAGES ---
+
+// Errors and warnings for one input, shown under it
+const FieldNote = ({ messages, field }: { messages: FieldMessage[]; field: string }) => (
+    <>
+        {messages.filter(message => message.field === field).map(message => (
+            <p key={message.message} className={message.severity === 'error' ? styles.fieldError : styles.fieldWarning}>{message.message}</p>
+        ))}
+    </>
+);
+
+// Stands in for the results panel, saying why there is nothing to show yet
+const ResultsPlaceholder = ({ messages, prompt }: { messages: FieldMessage[]; prompt: string }) => (
+    <div className={`${styles.results} ${styles.resultsPlaceholder}`}>
+        <p>{hasErrors(messages) ? 'Fix the fields marked in red to see results.' : prompt}</p>
+    </div>
+);
+
+// --- HYPOTHESIS ---
+
+type HypothesisInputsProps = {
+    idPrefix: string;
+    hypothesis: Hypothesis;
+    setHypothesis: React.Dispatch<React.SetStateAction<Hypothesis>>;
+    margin: number | string;
+    setMargin: React.Dispatch<React.SetStateAction<number | string>>;
+    messages: FieldMessage[];
+};
+
+const HypothesisInputs = ({ idPrefix, hypothesis, setHypothesis, margin, setMargin, messages }: HypothesisInputsProps) => (
+    <>
+        <div className={styles.inputGroup}>
+            <label htmlFor={`${idPrefix}Hypothesis`}>Hypothesis</label>
+            <select id={`${idPrefix}Hypothesis`} value={hypothesis} onChange={(e) => setHypothesis(e.target.value as Hypothesis)} className={styles.inputField}>
+                <option value="two-sided">Two-sided (B ≠ A)</option>
+                <option value="greater">One-sided (B &gt; A)</option>
+                <option value="less">One-sided (B &lt; A)</option>
+                <option value="non-inferiority">Non-inferiority (B not worse than A by more than margin)</option>
+            </select>
+        </div>
+        {hypothesis === 'non-inferiority' && (
+            <div className={styles.inputGroup}>
+                <label htmlFor={`${idPrefix}Margin`}>Non-inferiority Margin (% relative)</label>
+                <input id={`${idPrefix}Margin`} type="number" value={margin} onChange={(e) => setMargin(e.target.value)} placeholder="e.g., 2" className={styles.inputField} />
+                <FieldNote messages={messages} field="margin" />
+            </div>
+        )}
+    </>
+);
+
 // --- MODE 1: TEST ANALYSIS ---
 
-const TestAnalysis = ({ visitorsA, setVisitorsA, conversionsA, setConversionsA, visitorsB, setVisitorsB, conversionsB, setConversionsB, testDuration, setTestDuration }: any) => {
-    const results = useMemo(() => {
-        const vA = Number(visitorsA);
-        const cA = Number(conversionsA);
-        const vB = Number(visitorsB);
-        const cB = Number(conversionsB);
-        const duration = Number(testDuration);
-
-        if (vA <= 0 || cA < 0 || vB <= 0 || cB < 0 || cA > vA || cB > vB) return null;
-
-        const convRateA = cA / vA;
-        const convRateB = cB / vB;
-        const uplift = (convRateB - convRateA) / convRateA;
-
-        const pooledProb = (cA + cB) / (vA + vB);
-        const stdError = Math.sqrt(pooledProb * (1 - pooledProb) * (1 / vA + 1 / vB));
-
-        let confidence: number | null = null;
-        let isSignificant = false;
-        let pValue: number | null = null;
-        let additionalDaysNeeded: number | null | string = null;
-        let projectedTotalDuration: number | null | string = null;
-
-        if (stdError > 0) {
-            const zScore = (convRateB - convRateA) / stdError;
-            pValue = 2 * (1 - standardNormalCdf(Math.abs(zScore)));
-            confidence = 1 - pValue;
-            isSignificant = confidence >= 0.95;
-        } else {
-            confidence = convRateA === convRateB ? 0.5 : (convRateB > convRateA ? 1 : 0);
-            pValue = convRateA === convRateB ? 1 : 0;
-            isSignificant = false;
-        }
+type Variant = { visitors: number | string; conversions: number | string; allocation?: number | string };
 
-        if (duration > 0 && convRateA > 0 && convRateA < 1 && convRateB > 0 && convRateB < 1 && convRateA !== convRateB) {
-            const Z_ALPHA = standardNormalInverseCdf(1 - 0.05 / 2); // For 95% confidence
-
-            const p1 = convRateA;
-            const p2 = convRateB;
-            
-            const requiredNPerVariation =
-              (2 * (Z_ALPHA ** 2) * pooledProb * (1 - pooledProb)) /
-              ((p2 - p1) ** 2);
-
-            const totalVisitorsPerDay = (vA + vB) / duration;
-
-            if (totalVisitorsPerDay > 0) {
-                const requiredTotalVisitors = requiredNPerVariation * 2;
-                const requiredTotalDays = Math.ceil(requiredTotalVisitors / totalVisitorsPerDay);
-                const extraDays = requiredTotalDays - duration;
-                
-                additionalDaysNeeded = extraDays > 0 ? extraDays : 0;
-                projectedTotalDuration = duration + additionalDaysNeeded;
-
-            } else {
-                additionalDaysNeeded = 'N/A';
-                projectedTotalDuration = 'N/A';
-            }
+type IntervalRow = { label: string; estimate: number; interval: Interval | null };
+
+// Horizontal interval plot; an optional reference line (e.g. zero uplift) is drawn across all rows.
+const IntervalChart = ({ rows, reference, reportTitle }: { rows: IntervalRow[]; reference?: number; reportTitle?: string }) => {
+    const width = 600;
+    const rowHeight = 32;
+    const labelWidth = 90;
+    const padding = 16;
+    const height = rows.length * rowHeight + padding * 2;
+
+    const values = rows.flatMap(row => (row.interval ? [row.interval.lower, row.interval.upper, row.estimate] : [row.estimate]));
+    if (reference !== undefined) values.push(reference);
+    const finiteValues = values.filter(v => Number.isFinite(v));
+    if (finiteValues.length === 0) return null;
+    let min = Math.min(...finiteValues);
+    let max = Math.max(...finiteValues);
+    if (min === max) {
+        min -= 0.01;
+        max += 0.01;
+    }
+    const x = (value: number) => labelWidth + ((value - min) / (max - min)) * (width - labelWidth - padding);
+
+    return (
+        <svg className={styles.intervalChart} viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Confidence interval chart" data-report-chart={reportTitle}>
+            {reference !== undefined && (
+                <line x1={x(reference)} x2={x(reference)} y1={padding / 2} y2={height - padding / 2} stroke="#999" strokeDasharray="4 4" />
+            )}
+            {rows.map((row, i) => {
+                const y = padding + i * rowHeight + rowHeight / 2;
+                return (
+                    <g key={row.label}>
+                        <text x={0} y={y + 4} fontSize="13" fill="#333">{row.label}</text>
+                        {row.interval && (
+                            <line x1={x(row.interval.lower)} x2={x(row.interval.upper)} y1={y} y2={y} stroke="#0070f3" strokeWidth="3" strokeLinecap="round">
+                                <title>{`${row.label}: ${formatPercentage(row.interval.lower)} to ${formatPercentage(row.interval.upper)}`}</title>
+                            </line>
+                        )}
+                        {Number.isFinite(row.estimate) && <circle cx={x(row.estimate)} cy={y} r="5" fill="#1a1a1a" />}
+                    </g>
+                );
+            })}
+            <text x={labelWidth} y={height - 2} fontSize="11" fill="#666">{formatPercentage(min)}</text>
+            <text x={width - padding} y={height - 2} fontSize="11" fill="#666" textAnchor="end">{formatPercentage(max)}</text>
+        </svg>
+    );
+};
+
+const formatInterval = (interval: Interval | null) => (interval ? `${formatPercentage(interval.lower)} to ${formatPercentage(interval.upper)}` : 'N/A');
+
+// --- DAILY DATA IMPORT ---
+
+const SERIES_COLORS = ['#1a1a1a', '#0070f3', '#e67e22', '#28a745', '#8e44ad', '#dc3545', '#16a085', '#7f8c8d'];
+
+type LineSeries = { label: string; values: (number | null)[] };
+
+type ChartHighlight = { index: number; value: number; label: string };
+
+// Multi-series line chart; hovering shows the exact values at the nearest x position.
+const LineChart = ({ xLabels, series, reference, highlight, formatValue, reportTitle }: { xLabels: string[]; series: LineSeries[]; reference?: number; highlight?: ChartHighlight; formatValue: (value: number) => string; reportTitle?: string }) => {
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+    const width = 600;
+    const height = 220;
+    const left = 60;
+    const right = 16;
+    const top = 12;
+    const bottom = 28;
+
+    const values = series.flatMap(line => line.values.filter((v): v is number => v !== null && Number.isFinite(v)));
+    if (reference !== undefined) values.push(reference);
+    if (values.length === 0 || xLabels.length === 0) return null;
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (min === max) {
+        min -= 0.01;
+        max += 0.01;
+    }
+    const plotWidth = width - left - right;
+    const x = (index: number) => left + (xLabels.length === 1 ? 0 : (index / (xLabels.length - 1)) * plotWidth);
+    const y = (value: number) => top + (1 - (value - min) / (max - min)) * (height - top - bottom);
+    const showPoints = xLabels.length <= 60;
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const svgX = ((e.clientX - rect.left) / rect.width) * width;
+        const index = Math.round(((svgX - left) / plotWidth) * (xLabels.length - 1));
+        setHoverIndex(Math.max(0, Math.min(xLabels.length - 1, index)));
+    };
+
+    const hoverLines = hoverIndex === null ? [] : series
+        .map((line, s) => ({ label: line.label, color: SERIES_COLORS[s % SERIES_COLORS.length], value: line.values[hoverIndex] }))
+        .filter((entry): entry is { label: string; color: string; value: number } => entry.value !== null && Number.isFinite(entry.value));
+    const tooltipWidth = 170;
+    const tooltipX = hoverIndex !== null && x(hoverIndex) + tooltipWidth + 10 > width ? x(hoverIndex) - tooltipWidth - 10 : (hoverIndex !== null ? x(hoverIndex) + 10 : 0);
+
+    return (
+        <svg className={styles.intervalChart} viewBox={`0 0 ${width} ${height}`} role="img" onMouseMove={handleMouseMove} onMouseLeave={() => setHoverIndex(null)} data-report-chart={reportTitle} data-report-legend={series.length > 1 ? JSON.stringify(series.map(line => line.label)) : undefined}>
+            <line x1={left} x2={left} y1={top} y2={height - bottom} stroke="#ccc" />
+            <line x1={left} x2={width - right} y1={height - bottom} y2={height - bottom} stroke="#ccc" />
+            <text x={left - 6} y={top + 4} fontSize="11" fill="#666" textAnchor="end">{formatValue(max)}</text>
+            <text x={left - 6} y={height - bottom} fontSize="11" fill="#666" textAnchor="end">{formatValue(min)}</text>
+            <text x={left} y={height - 8} fontSize="11" fill="#666">{xLabels[0]}</text>
+            <text x={width - right} y={height - 8} fontSize="11" fill="#666" textAnchor="end">{xLabels[xLabels.length - 1]}</text>
+            {reference !== undefined && <line x1={left} x2={width - right} y1={y(reference)} y2={y(reference)} stroke="#999" strokeDasharray="4 4" />}
+            {series.map((line, s) => {
+                const color = SERIES_COLORS[s % SERIES_COLORS.length];
+                const path = line.values
+                    .map((value, i) => (value === null || !Number.isFinite(value) ? null : `${x(i)},${y(value)}`))
+                    .filter(Boolean)
+                    .join(' ');
+                return (
+                    <g key={line.label}>
+                        <polyline points={path} fill="none" stroke={color} strokeWidth="2" />
+                        {showPoints && line.values.map((value, i) => value !== null && Number.isFinite(value) && (
+                            <circle key={i} cx={x(i)} cy={y(value)} r="3" fill={color} />
+                        ))}
+                    </g>
+                );
+            })}
+            {highlight && (
+                <g>
+                    <circle cx={x(highlight.index)} cy={y(highlight.value)} r="6" fill="none" stroke="#dc3545" strokeWidth="2" />
+                    <text x={x(highlight.index)} y={Math.max(top + 10, y(highlight.value) - 10)} fontSize="11" fill="#dc3545" textAnchor={x(highlight.index) > width / 2 ? 'end' : 'start'}>{highlight.label}</text>
+                </g>
+            )}
+            {hoverIndex !== null && hoverLines.length > 0 && (
+                <g pointerEvents="none" data-report-exclude>
+                    <line x1={x(hoverIndex)} x2={x(hoverIndex)} y1={top} y2={height - bottom} stroke="#bbb" />
+                    {hoverLines.map(entry => <circle key={entry.label} cx={x(hoverIndex)} cy={y(entry.value)} r="4" fill={entry.color} />)}
+                    <rect x={tooltipX} y={top} width={tooltipWidth} height={18 + hoverLines.length * 15} rx="4" fill="#fff" stroke="#ccc" />
+                    <text x={tooltipX + 8} y={top + 14} fontSize="11" fontWeight="bold" fill="#333">{xLabels[hoverIndex]}</text>
+                    {hoverLines.map((entry, i) => (
+                        <text key={entry.label} x={tooltipX + 8} y={top + 29 + i * 15} fontSize="11" fill={entry.color}>{`${entry.label}: ${formatValue(entry.value)}`}</text>
+                    ))}
+                </g>
+            )}
+        </svg>
+    );
+};
+
+const ChartLegend = ({ labels }: { labels: string[] }) => (
+    <div className={styles.chartLegend}>
+        {labels.map((label, i) => (
+            <span key={label}><span className={styles.legendSwatch} style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }} />{label}</span>
+        ))}
+    </div>
+);
+
+// --- REPORTS ---
+
+// Charts on screen that were given a `reportTitle`, without hover overlays
+const collectReportCharts = (): ReportChart[] =>
+    Array.from(document.querySelectorAll<SVGSVGElement>('svg[data-report-chart]')).map(svg => {
+        const copy = svg.cloneNode(true) as SVGSVGElement;
+        copy.querySelectorAll('[data-report-exclude]').forEach(element => element.remove());
+        copy.removeAttribute('class');
+        const labels: string[] = svg.dataset.reportLegend ? JSON.parse(svg.dataset.reportLegend) : [];
+        return { title: svg.dataset.reportChart ?? '', svg: copy.outerHTML, legend: labels.map((label, i) => ({ label, color: SERIES_COLORS[i % SERIES_COLORS.length] })) };
+    });
+
+const ReportActions = ({ buildReport }: { buildReport: (charts: ReportChart[]) => Report }) => {
+    const [copyStatus, setCopyStatus] = useState('');
+
+    const openPrintable = () => {
+        const url = URL.createObjectURL(new Blob([renderReportHtml(buildReport(collectReportCharts()))], { type: 'text/html' }));
+        window.open(url, '_blank');
+        // The new tab reads the blob asynchronously, so it is released later
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+    };
+
+    const copyMarkdown = () => {
+        navigator.clipboard.writeText(renderReportMarkdown(buildReport(collectReportCharts())))
+            .then(() => setCopyStatus('Copied!'))
+            .catch(err => {
+                setCopyStatus('Failed!');
+                console.error('Failed to copy report: ', err);
+            })
+            .finally(() => setTimeout(() => setCopyStatus(''), 2000));
+    };
+
+    const downloadMarkdown = () => {
+        const report = buildReport(collectReportCharts());
+        downloadFile(`${report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().slice(0, 10)}.md`, renderReportMarkdown(report), 'text/markdown');
+    };
+
+    return (
+        <div className={styles.reportActions}>
+            <span>Export report:</span>
+            <button className={styles.addVariantButton} onClick={openPrintable}>Printable / PDF</button>
+            <button className={styles.removeButton} onClick={copyMarkdown}>{copyStatus || 'Copy Markdown'}</button>
+            <button className={styles.removeButton} onClick={downloadMarkdown}>Download Markdown</button>
+        </div>
+    );
+};
+
+type ImportedTotals = { control: Variant; variants: Variant[]; durationDays: number };
+
+type DailyDataImportProps = {
+    dailyData: string;
+    setDailyData: React.Dispatch<React.SetStateAction<string>>;
+    onImport: (totals: ImportedTotals) => void;
+    alpha: number;
+    hypothesis: Hypothesis;
+    margin: number;
+};
+
+const DailyDataImport = ({ dailyData, setDailyData, onImport, alpha, hypothesis, margin }: DailyDataImportProps) => {
+    const [draft, setDraft] = useState(dailyData);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isOpen, setIsOpen] = useState(dailyData !== '');
+
+    const importText = (text: string) => {
+        setDraft(text);
+        const parsed = parseDailyData(text);
+        setErrors(parsed.errors);
+        if (parsed.errors.length > 0) return;
+
+        const { points, durationDays } = cumulativeSeries(parsed.rows);
+        const [control, ...others] = points[points.length - 1];
+        setDailyData(text);
+        onImport({
+            control: { visitors: control.visitors, conversions: control.conversions },
+            variants: others.map(totals => ({ visitors: totals.visitors, conversions: totals.conversions })),
+            durationDays,
+        });
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(importText).catch(err => setErrors([`Could not read file: ${err}`]));
+        e.target.value = '';
+    };
+
+    const charts = useMemo(() => {
+        if (dailyData === '') return null;
+        const parsed = parseDailyData(dailyData);
+        if (parsed.errors.length > 0) return null;
+        const { variantNames, dates, points } = cumulativeSeries(parsed.rows);
+
+        const rates = variantNames.map((name, v) => ({
+            label: name,
+            values: points.map(day => (day[v].visitors > 0 ? day[v].conversions / day[v].visitors : null)),
+        }));
+        const comparisons = variantNames.slice(1).map((name, offset) => {
+            const v = offset + 1;
+            const daily = points.map(day => {
+                const [control, variant] = [day[0], day[v]];
+                if (control.visitors <= 0 || variant.visitors <= 0 || control.conversions <= 0) return null;
+                return compareToControl(control.visitors, control.conversions, variant.visitors, variant.conversions, 0, alpha, hypothesis, margin);
+            });
+            return {
+                uplift: { label: `${name} vs ${variantNames[0]}`, values: daily.map(c => (c ? c.uplift : null)) },
+                confidence: { label: `${name} vs ${variantNames[0]}`, values: daily.map(c => (c ? 1 - c.pValue : null)) },
+            };
+        });
+
+        return { variantNames, dates, rates, uplift: comparisons.map(c => c.uplift), confidence: comparisons.map(c => c.confidence) };
+    }, [dailyData, alpha, hypothesis, margin]);
+
+    return (
+        <div className={`${styles.card} ${styles.durationCard}`}>
+            <div className={styles.cardHeader}>
+                <h2>Daily Data Import</h2>
+                <button className={styles.removeButton} onClick={() => setIsOpen(!isOpen)}>{isOpen ? 'Hide' : 'Show'}</button>
+            </div>
+            {isOpen && (
+                <>
+                    <p className={styles.helpText}>Paste or upload CSV/TSV rows of <code>date, variant, visitors, conversions</code> (dates as YYYY-MM-DD). The first variant listed is the control. Importing fills the totals and test duration below.</p>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="dailyData">Daily rows</label>
+                        <textarea id="dailyData" value={draft} onChange={(e) => setDraft(e.target.value)} rows={6} placeholder={'date,variant,visitors,conversions\n2024-05-01,A,500,25\n2024-05-01,B,510,31'} className={styles.textArea} />
+                    </div>
+                    <div className={styles.importActions}>
+                        <button className={styles.addVariantButton} onClick={() => importText(draft)}>Import</button>
+                        <label className={styles.fileLabel}>Upload file<input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} /></label>
+                        {dailyData !== '' && <button className={styles.removeButton} onClick={() => { setDailyData(''); setErrors([]); }}>Clear charts</button>}
+                    </div>
+                    {errors.length > 0 && (
+                        <ul className={styles.errorList}>
+                            {errors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                    {charts && (
+                        <>
+                            <h3 className={styles.chartTitle}>Cumulative conversion rate</h3>
+                            <LineChart xLabels={charts.dates} series={charts.rates} formatValue={formatPercentage} reportTitle="Cumulative conversion rate" />
+                            <ChartLegend labels={charts.variantNames} />
+                            <h3 className={styles.chartTitle}>Cumulative uplift</h3>
+                            <LineChart xLabels={charts.dates} series={charts.uplift} reference={0} formatValue={formatPercentage} reportTitle="Cumulative uplift" />
+                            <ChartLegend labels={charts.uplift.map(line => line.label)} />
+                            <h3 className={styles.chartTitle}>Cumulative confidence</h3>
+                            <LineChart xLabels={charts.dates} series={charts.confidence} reference={1 - alpha} formatValue={formatPercentage} reportTitle="Cumulative confidence" />
+                            <ChartLegend labels={charts.confidence.map(line => line.label)} />
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+// --- BUSINESS IMPACT ---
+
+// Signed whole amounts, e.g. +1,234 or -56
+const formatImpact = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0, signDisplay: 'exceptZero' });
+
+const impactRange = (range: { lower: number; upper: number }) => `${formatImpact(range.lower)} to ${formatImpact(range.upper)}`;
+
+// Conversions keep one decimal so that a small daily cost does not round to 0
+const formatCost = ({ conversions, revenue }: { conversions: number; revenue: number | null }) =>
+    `${conversions.toLocaleString(undefined, { maximumFractionDigits: 1 })} conversions${revenue === null ? '' : `, ${revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })} revenue`}`;
+
+type BusinessImpactProps = {
+    results: TestAnalysisResult;
+    /** Visitors of every arm, control first. */
+    armVisitors: number[];
+    averageOrderValue: NumericInput; setAverageOrderValue: Setter<NumericInput>;
+    monthlyTraffic: NumericInput; setMonthlyTraffic: Setter<NumericInput>;
+    rolloutMonths: NumericInput; setRolloutMonths: Setter<NumericInput>;
+    confidenceLevel: NumericInput;
+    sequential: boolean;
+    messages: FieldMessage[];
+};
+
+const BusinessImpact = ({ results, armVisitors, averageOrderValue, setAverageOrderValue, monthlyTraffic, setMonthlyTraffic, rolloutMonths, setRolloutMonths, confidenceLevel, sequential, messages }: BusinessImpactProps) => {
+    const [isOpen, setIsOpen] = useState(monthlyTraffic !== '');
+
+    const totalVisitors = armVisitors.reduce((sum, visitors) => sum + visitors, 0);
+    const projections = results.variantResults.map((variant, i) => projectImpact(variant, armVisitors[i + 1] / totalVisitors, {
+        monthlyTraffic: Number(monthlyTraffic),
+        averageOrderValue: optionalNumber(averageOrderValue) ?? null,
+        horizonMonths: Number(rolloutMonths),
+    }));
+
+    const periods = (impact: { perMonth: ImpactAmounts; perYear: ImpactAmounts; overHorizon: ImpactAmounts }) => [
+        { name: 'Per month', amounts: impact.perMonth },
+        { name: 'Per year', amounts: impact.perYear },
+        { name: `Over ${rolloutMonths} months`, amounts: impact.overHorizon },
+    ];
+
+    return (
+        <div className={`${styles.card} ${styles.durationCard}`}>
+            <div className={styles.cardHeader}>
+                <h2>Business Impact</h2>
+                <button className={styles.removeButton} onClick={() => setIsOpen(!isOpen)}>{isOpen ? 'Hide' : 'Show'}</button>
+            </div>
+            {isOpen && (
+                <>
+                    <p className={styles.helpText}>Projects what shipping each variation to all traffic would gain or lose, assuming the observed difference in conversion rate holds. Ranges come from the {confidenceLevel}% interval of the difference.</p>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="monthlyTraffic">Monthly Traffic (visitors)</label>
+                        <input id="monthlyTraffic" type="number" value={monthlyTraffic} onChange={(e) => setMonthlyTraffic(e.target.value)} placeholder="e.g., 200000" className={styles.inputField} />
+                        <FieldNote messages={messages} field="monthlyTraffic" />
+                    </div>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="averageOrderValue">Average Order Value (optional)</label>
+                        <input id="averageOrderValue" type="number" value={averageOrderValue} onChange={(e) => setAverageOrderValue(e.target.value)} placeholder="e.g., 45" className={styles.inputField} />
+                        <FieldNote messages={messages} field="averageOrderValue" />
+                    </div>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="rolloutMonths">Rollout Horizon (months)</label>
+                        <input id="rolloutMonths" type="number" value={rolloutMonths} onChange={(e) => setRolloutMonths(e.target.value)} placeholder="e.g., 12" className={styles.inputField} />
+                        <FieldNote messages={messages} field="rolloutMonths" />
+                    </div>
+                    {monthlyTraffic !== '' && projections.map((impact, i) => impact && (
+                        <div key={impact.label} className={styles.variantResult}>
+                            {projections.length > 1 && <h3>Shipping Variation ({impact.label})</h3>}
+                            <div className={styles.tableScroll}>
+                                <table className={styles.preTestTable}>
+                                    <thead>
+                                        <tr>
+                                            <th>Period</th>
+                                            <th>Conversions</th>
+                                            <th>{confidenceLevel}% range</th>
+                                            {impact.perMonth.revenue && <th>Revenue</th>}
+                                            {impact.perMonth.revenue && <th>{confidenceLevel}% range</th>}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {periods(impact).map(({ name, amounts }) => (
+                                            <tr key={name}>
+                                                <td>{name}</td>
+                                                <td>{formatImpact(amounts.conversions.estimate)}</td>
+                                                <td>{impactRange(amounts.conversions)}</td>
+                                                {amounts.revenue && <td>{formatImpact(amounts.revenue.estimate)}</td>}
+                                                {amounts.revenue && <td>{impactRange(amounts.revenue)}</td>}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <div className={styles.resultItem}>
+                                <span>Cost of each extra day of testing</span>
+                                <span className={styles.resultValue}>{formatCost(impact.costPerDay)}</span>
+                            </div>
+                            {!sequential && impact.costOfWaiting && (
+                                <div className={styles.resultItem}>
+                                    <span>Cost of the {impact.costOfWaiting.days} additional days needed</span>
+                                    <span className={styles.resultValue}>{formatCost(impact.costOfWaiting)}</span>
+                                </div>
+                            )}
+                            {impact.perMonth.conversions.lower < 0 && impact.perMonth.conversions.upper > 0 && (
+                                <p className={`${styles.summary} ${styles.notSignificant}`}>The range includes a loss as well as a gain: the data cannot yet tell which way shipping Variation ({impact.label}) would go.</p>
+                            )}
+                            {!results.variantResults[i].isSignificant && <p className={styles.helpText}>The difference is not statistically significant, so treat the projection as a scenario rather than a forecast.</p>}
+                        </div>
+                    ))}
+                    <p className={styles.helpText}>
+                        An extra day of testing keeps the visitors on the losing side of the comparison: the other arms when a variation is better, the variation when it is worse.
+                        Ranges are not adjusted for multiple comparisons{sequential ? ' or repeated looks' : ''}.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
+
+// --- CUPED ---
+
+type CupedUserDataProps = {
+    cupedData: string;
+    setCupedData: Setter<string>;
+    /** Entered counts of every arm, control first; the per-user data must add up to them. */
+    counts: ArmCounts[];
+    cuped: CupedAnalysis | null;
+};
+
+// Per-user pre-period and in-test values; when loaded they replace the entered correlation
+const CupedUserData = ({ cupedData, setCupedData, counts, cuped }: CupedUserDataProps) => {
+    const [draft, setDraft] = useState(cupedData);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isOpen, setIsOpen] = useState(cupedData !== '');
+
+    const applyText = (text: string) => {
+        setDraft(text);
+        const parsed = parseCupedData(text);
+        setErrors(parsed.errors);
+        if (parsed.errors.length === 0) setCupedData(text);
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(applyText).catch(err => setErrors([`Could not read file: ${err}`]));
+        e.target.value = '';
+    };
+
+    const parsed = useMemo(() => (cupedData === '' ? null : parseCupedData(cupedData)), [cupedData]);
+    const users = parsed ? parsed.arms.reduce((sum, arm) => sum + arm.pre.length, 0) : 0;
+    const mismatch = parsed && parsed.errors.length === 0 ? cupedDataMismatch(parsed, counts) : null;
+
+    return (
+        <div className={`${styles.card} ${styles.durationCard}`}>
+            <div className={styles.cardHeader}>
+                <h2>CUPED Per-user Data</h2>
+                <button className={styles.removeButton} onClick={() => setIsOpen(!isOpen)}>{isOpen ? 'Hide' : 'Show'}</button>
+            </div>
+            {isOpen && (
+                <>
+                    <p className={styles.helpText}>Paste or upload CSV/TSV rows of <code>variant, pre, post</code>, one row per user: the metric before the test and during it (0 or 1 for a conversion). The first variant listed is the control, and each arm must add up to the visitors and conversions entered above. While loaded, the adjustment uses these values instead of the entered correlation.</p>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="cupedData">Per-user rows</label>
+                        <textarea id="cupedData" value={draft} onChange={(e) => setDraft(e.target.value)} rows={6} placeholder={'variant,pre,post\nA,2,1\nA,0,0\nB,3,1\nB,1,0'} className={styles.textArea} />
+                    </div>
+                    <div className={styles.importActions}>
+                        <button className={styles.addVariantButton} onClick={() => applyText(draft)}>Apply per-user data</button>
+                        <label className={styles.fileLabel}>Upload file<input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} /></label>
+                        {cupedData !== '' && <button className={styles.removeButton} onClick={() => { setCupedData(''); setErrors([]); }}>Clear per-user data</button>}
+                    </div>
+                    {errors.length > 0 && (
+                        <ul className={styles.errorList}>
+                            {errors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                    {mismatch && <p className={styles.fieldError}>{mismatch} The data must belong to this test, so no adjustment is made.</p>}
+                    {parsed && cuped?.source === 'user-data' && (
+                        <p className={styles.helpText}>Using {users.toLocaleString()} users: θ = {formatNumber(cuped.theta ?? 0)}, {cupedText(cuped)}.</p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+// CUPED-adjusted estimate of one variation, set apart from the unadjusted results above it
+const CupedResult = ({ cuped, index, confidenceLevel, hypothesis, margin }: { cuped: CupedAnalysis; index: number; confidenceLevel: NumericInput; hypothesis: Hypothesis; margin: NumericInput }) => {
+    const result = cuped.variantResults[index];
+    return (
+        <div className={styles.cupedResult}>
+            <p className={styles.preTestSubtitle}><strong>CUPED-adjusted</strong> ({cupedText(cuped)})</p>
+            <div className={styles.resultItem}><span>Absolute difference (CUPED)</span><span className={styles.resultValue}>{formatPercentage(result.absoluteDifference)} ({formatInterval(result.absoluteInterval)})</span></div>
+            <div className={styles.resultItem}><span>{confidenceLevel}% CI for uplift (CUPED)</span><span className={styles.resultValue}>{formatInterval(result.upliftInterval)}</span></div>
+            <div className={styles.resultItem}><span>Confidence (CUPED)</span><span className={`${styles.resultValue} ${result.isSignificant ? styles.significant : styles.notSignificant}`}>{formatPercentage(result.confidence)}</span></div>
+            <div className={styles.resultItem}><span>P-value (CUPED)</span><span className={styles.resultValue}>{formatPValue(cuped.variantResults.length > 1 ? result.adjustedPValue : result.pValue)}</span></div>
+            <p className={styles.summary}>With CUPED: {verdictText(hypothesis, result.isSignificant, margin)}</p>
+        </div>
+    );
+};
+
+// --- SEGMENT BREAKDOWN ---
+
+type SegmentResultsProps = {
+    armNames: string[];
+    counts: SegmentCounts[];
+    analysis: SegmentAnalysisResult;
+    confidenceLevel: NumericInput;
+};
+
+// Per-variation tables and charts of a segment breakdown, under the paradox and traffic mix warnings
+const SegmentResults = ({ armNames, counts, analysis, confidenceLevel }: SegmentResultsProps) => {
+    const { trafficMix } = analysis;
+    const pooledArms = armNames.map((_, a) => ({ visitors: counts.reduce((sum, segment) => sum + segment.arms[a].visitors, 0) }));
+    return (
+        <>
+            {armNames.slice(1).map((name, offset) => {
+                const paradox = analysis.paradoxes.find(item => item.label === variantLabel(offset));
+                return paradox && (
+                    <div key={name} className={styles.warningBox} role="alert">
+                        <strong>Simpson&apos;s paradox: {name} vs {armNames[0]}.</strong>
+                        <p>
+                            Pooled over all segments the difference is {formatPercentage(paradox.pooledDifference)}, but within segments it averages {formatPercentage(paradox.weightedDifference)}.
+                            The pooled result points the other way because the arms have a different segment mix. Base decisions on the segment-level results.
+                        </p>
+                    </div>
+                );
+            })}
+            {trafficMix?.isMismatch && (
+                <div className={styles.warningBox} role="alert">
+                    <strong>The traffic mix differs between arms (p = {formatPValue(trafficMix.pValue)}).</strong>
+                    <p>
+                        {counts.map((segment, s) => `${segment.name}: ${trafficMix.shares.map((shares, a) => `${armNames[a]} ${formatPercentage(shares[s])}`).join(' / ')}`).join('; ')}.
+                        Pooled results mix different audiences in each arm. Check the targeting and randomization, and compare arms within segments.
+                    </p>
+                </div>
+            )}
+            {armNames.slice(1).map((name, offset) => {
+                const heterogeneity = analysis.heterogeneity[offset];
+                const rows = [
+                    ...analysis.segments.map((segment, s) => ({ name: segment.name, arms: counts[s].arms, result: segment.result?.variantResults[offset] ?? null })),
+                    { name: 'All segments', arms: pooledArms, result: analysis.pooled.variantResults[offset] },
+                ];
+                return (
+                    <div key={name} className={styles.variantResult}>
+                        <h3 className={styles.chartTitle}>{name} vs {armNames[0]}</h3>
+                        <div className={styles.tableScroll}>
+                            <table className={styles.preTestTable}>
+                                <thead>
+                                    <tr>
+                                        <th>Segment</th>
+                                        <th>Visitors ({armNames[0]} / {name})</th>
+                                        <th>Uplift</th>
+                                        <th>{confidenceLevel}% CI</th>
+                                        <th>Confidence</th>
+                                        <th>P-value</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.map((row, r) => (
+                                        <tr key={row.name} className={r === rows.length - 1 ? styles.currentRow : undefined}>
+                                            <td>{row.name}</td>
+                                            <td>{row.arms[0].visitors.toLocaleString()} / {row.arms[offset + 1].visitors.toLocaleString()}</td>
+                                            {row.result ? (
+                                                <>
+                                                    <td>{formatPercentage(row.result.uplift)}</td>
+                                                    <td>{formatInterval(row.result.upliftInterval)}</td>
+                                                    <td className={row.result.isSignificant ? styles.significant : undefined}>{formatPercentage(row.result.confidence)}</td>
+                                                    <td>{formatPValue(row.result.pValue)}</td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={4}>Not enough data</td>
+                                            )}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <IntervalChart
+                            reportTitle={`Uplift by segment: ${name} vs ${armNames[0]} (${confidenceLevel}% CI)`}
+                            reference={0}
+                            rows={rows.filter(row => row.result).map(row => ({ label: row.name, estimate: row.result?.uplift ?? 0, interval: row.result?.upliftInterval ?? null }))}
+                        />
+                        <div className={styles.resultItem}>
+                            <span>Heterogeneity (Cochran&apos;s Q)</span>
+                            <span className={styles.resultValue}>{heterogeneity ? `Q = ${heterogeneity.q.toFixed(2)}, p = ${formatPValue(heterogeneity.pValue)}, I² = ${formatPercentage(heterogeneity.iSquared)}` : 'Needs two segments with data'}</span>
+                        </div>
+                        {heterogeneity && (
+                            <p className={`${styles.summary} ${heterogeneity.isHeterogeneous ? styles.notSignificant : ''}`}>
+                                {heterogeneity.isHeterogeneous
+                                    ? 'The effect differs between segments. Judge each segment on its own rather than the pooled result.'
+                                    : 'No evidence that the effect differs between segments.'}
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+            <p className={styles.helpText}>Segment p-values are not adjusted for the number of segments: with many segments, some will look significant by chance.</p>
+        </>
+    );
+};
+
+type SegmentBreakdownProps = {
+    segmentData: string;
+    setSegmentData: Setter<string>;
+    /** Percent, as entered. */
+    confidenceLevel: NumericInput;
+    hypothesis: Hypothesis;
+    margin: NumericInput;
+    correction: CorrectionMethod;
+    intervalMethod: IntervalMethod;
+    testMethod: TestMethodChoice;
+};
+
+const SegmentBreakdown = ({ segmentData, setSegmentData, confidenceLevel, hypothesis, margin, correction, intervalMethod, testMethod }: SegmentBreakdownProps) => {
+    const [draft, setDraft] = useState(segmentData);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isOpen, setIsOpen] = useState(segmentData !== '');
+
+    const analyzeText = (text: string) => {
+        setDraft(text);
+        const parsed = parseSegmentData(text);
+        setErrors(parsed.errors);
+        if (parsed.errors.length === 0) setSegmentData(text);
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(analyzeText).catch(err => setErrors([`Could not read file: ${err}`]));
+        e.target.value = '';
+    };
+
+    const breakdown = useMemo(() => {
+        if (segmentData === '') return null;
+        const parsed = parseSegmentData(segmentData);
+        if (parsed.errors.length > 0) return null;
+        const analysis = analyzeSegments({
+            segments: parsed.segments,
+            confidenceLevel: Number(confidenceLevel) / 100,
+            hypothesis,
+            margin: Number(margin) / 100,
+            correction,
+            intervalMethod,
+            testMethod,
+        });
+        return analysis && { armNames: parsed.armNames, counts: parsed.segments, analysis };
+    }, [segmentData, confidenceLevel, hypothesis, margin, correction, intervalMethod, testMethod]);
+
+    return (
+        <div className={`${styles.card} ${styles.durationCard}`}>
+            <div className={styles.cardHeader}>
+                <h2>Segment Breakdown</h2>
+                <button className={styles.removeButton} onClick={() => setIsOpen(!isOpen)}>{isOpen ? 'Hide' : 'Show'}</button>
+            </div>
+            {isOpen && (
+                <>
+                    <p className={styles.helpText}>Paste or upload CSV/TSV rows of <code>segment, variant, visitors, conversions</code>, one row per segment and variant. The first variant listed is the control. Each segment is analyzed with the settings above; the totals below are not changed.</p>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="segmentData">Segment rows</label>
+                        <textarea id="segmentData" value={draft} onChange={(e) => setDraft(e.target.value)} rows={6} placeholder={'segment,variant,visitors,conversions\ndesktop,A,4000,220\ndesktop,B,4100,260\nmobile,A,6000,180\nmobile,B,5900,170'} className={styles.textArea} />
+                    </div>
+                    <div className={styles.importActions}>
+                        <button className={styles.addVariantButton} onClick={() => analyzeText(draft)}>Analyze segments</button>
+                        <label className={styles.fileLabel}>Upload file<input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} /></label>
+                        {segmentData !== '' && <button className={styles.removeButton} onClick={() => { setSegmentData(''); setErrors([]); }}>Clear breakdown</button>}
+                    </div>
+                    {errors.length > 0 && (
+                        <ul className={styles.errorList}>
+                            {errors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                    {segmentData !== '' && errors.length === 0 && !breakdown && <p className={styles.helpText}>Fix the settings above to see the breakdown.</p>}
+                    {breakdown && <SegmentResults {...breakdown} confidenceLevel={confidenceLevel} />}
+                </>
+            )}
+        </div>
+    );
+};
+
+const recommendationText = ({ method, minExpected }: TestRecommendation, hypothesis: Hypothesis) => {
+    if (hypothesis === 'non-inferiority') return 'Non-inferiority is always tested with the Z-test: the other tests only test for a difference.';
+    const expected = `smallest expected count ${formatNumber(Number(minExpected.toFixed(1)))}`;
+    if (method === 'fisher') return `Recommended for these counts: Fisher's exact test (${expected}, below 5).`;
+    if (method === 'yates') return `Recommended for these counts: the chi-square test with Yates correction (${expected}, below 10).`;
+    return `Recommended for these counts: the Z-test (${expected}); the normal approximation holds.`;
+};
+
+type TestAnalysisProps = {
+    visitorsA: NumericInput; setVisitorsA: Setter<NumericInput>;
+    conversionsA: NumericInput; setConversionsA: Setter<NumericInput>;
+    allocationA: NumericInput; setAllocationA: Setter<NumericInput>;
+    variants: Variant[]; setVariants: Setter<Variant[]>;
+    correction: CorrectionMethod; setCorrection: Setter<CorrectionMethod>;
+    confidenceLevel: NumericInput; setConfidenceLevel: Setter<NumericInput>;
+    intervalMethod: IntervalMethod; setIntervalMethod: Setter<IntervalMethod>;
+    testMethod: TestMethodChoice; setTestMethod: Setter<TestMethodChoice>;
+    hypothesis: Hypothesis; setHypothesis: Setter<Hypothesis>;
+    margin: NumericInput; setMargin: Setter<NumericInput>;
+    analysisType: AnalysisType; setAnalysisType: Setter<AnalysisType>;
+    spending: SpendingFunction; setSpending: Setter<SpendingFunction>;
+    plannedLooks: NumericInput; setPlannedLooks: Setter<NumericInput>;
+    currentLook: NumericInput; setCurrentLook: Setter<NumericInput>;
+    dailyData: string; setDailyData: Setter<string>;
+    segmentData: string; setSegmentData: Setter<string>;
+    testDuration: NumericInput; setTestDuration: Setter<NumericInput>;
+    averageOrderValue: NumericInput; setAverageOrderValue: Setter<NumericInput>;
+    monthlyTraffic: NumericInput; setMonthlyTraffic: Setter<NumericInput>;
+    rolloutMonths: NumericInput; setRolloutMonths: Setter<NumericInput>;
+    covariateCorrelation: NumericInput; setCovariateCorrelation: Setter<NumericInput>;
+    cupedData: string; setCupedData: Setter<string>;
+    messages: FieldMessage[];
+};
+
+const TestAnalysis = ({ visitorsA, setVisitorsA, conversionsA, setConversionsA, allocationA, setAllocationA, variants, setVariants, correction, setCorrection, confidenceLevel, setConfidenceLevel, intervalMethod, setIntervalMethod, testMethod, setTestMethod, hypothesis, setHypothesis, margin, setMargin, analysisType, setAnalysisType, spending, setSpending, plannedLooks, setPlannedLooks, currentLook, setCurrentLook, dailyData, setDailyData, segmentData, setSegmentData, testDuration, setTestDuration, averageOrderValue, setAverageOrderValue, monthlyTraffic, setMonthlyTraffic, rolloutMonths, setRolloutMonths, covariateCorrelation, setCovariateCorrelation, cupedData, setCupedData, messages }: TestAnalysisProps) => {
+    const results = useMemo(() => analyzeTest({
+        control: { visitors: Number(visitorsA), conversions: Number(conversionsA), allocation: optionalNumber(allocationA) },
+        variants: variants.map(v => ({ visitors: Number(v.visitors), conversions: Number(v.conversions), allocation: optionalNumber(v.allocation) })),
+        durationDays: Number(testDuration),
+        confidenceLevel: Number(confidenceLevel) / 100,
+        hypothesis,
+        margin: Number(margin) / 100,
+        correction,
+        intervalMethod,
+        testMethod,
+    }), [visitorsA, conversionsA, allocationA, variants, correction, confidenceLevel, intervalMethod, testMethod, hypothesis, margin, testDuration]);
+
+    const armCounts = useMemo(() => [
+        { visitors: Number(visitorsA), conversions: Number(conversionsA) },
+        ...variants.map(v => ({ visitors: Number(v.visitors), conversions: Number(v.conversions) })),
+    ], [visitorsA, conversionsA, variants]);
+
+    // Per-user data takes precedence over the entered correlation, but only when it adds up to the entered counts
+    const cuped = useMemo(() => {
+        if (!results) return null;
+        const settings = { confidenceLevel: Number(confidenceLevel) / 100, hypothesis, margin: Number(margin) / 100, correction };
+        if (cupedData !== '') {
+            const parsed = parseCupedData(cupedData);
+            return parsed.errors.length === 0 && !cupedDataMismatch(parsed, armCounts) ? cupedFromUserData(parsed.arms, settings) : null;
         }
+        const correlation = optionalNumber(covariateCorrelation);
+        if (correlation === undefined) return null;
+        const [control, ...others] = armCounts;
+        return cupedFromCorrelation(control, others, correlation, settings);
+    }, [results, cupedData, covariateCorrelation, armCounts, confidenceLevel, hypothesis, margin, correction]);
+
+    // Boundaries only depend on the design, so they are not recomputed on every count change
+    const variantCount = variants.length;
+    const design = useMemo(() => {
+        if (analysisType !== 'sequential') return null;
+        return sequentialDesign(Number(plannedLooks), Number(confidenceLevel) / 100, hypothesis, spending, variantCount);
+    }, [analysisType, plannedLooks, confidenceLevel, hypothesis, spending, variantCount]);
+
+    const sequential = useMemo(() => {
+        if (!design || !results) return null;
+        const { fractions, boundaries } = design;
+        const look = Number(currentLook);
+        if (!Number.isInteger(look) || look < 1 || look > fractions.length) return null;
+
+        const decisions = results.variantResults.map(result => ({ label: result.label, ...sequentialLook(design, look, result.zScore, hypothesis) }));
+
+        return { boundaries, fractions, look, decisions };
+    }, [design, results, currentLook, hypothesis]);
+
+    const updateVariant = (index: number, field: keyof Variant, value: string) => {
+        setVariants(prev => prev.map((v, i) => (i === index ? { ...v, [field]: value } : v)));
+    };
+
+    const addVariant = () => {
+        setVariants(prev => (prev.length >= MAX_VARIANTS ? prev : [...prev, { visitors: '', conversions: '' }]));
+    };
 
+    const removeVariant = (index: number) => {
+        setVariants(prev => (prev.length <= 1 ? prev : prev.filter((_, i) => i !== index)));
+    };
+
+    const handleImport = ({ control, variants: importedVariants, durationDays }: ImportedTotals) => {
+        setVisitorsA(control.visitors);
+        setConversionsA(control.conversions);
+        setVariants(importedVariants);
+        setTestDuration(durationDays);
+    };
 
-        return { convRateA, convRateB, uplift, confidence, isSignificant, pValue, additionalDaysNeeded, projectedTotalDuration };
-    }, [visitorsA, conversionsA, visitorsB, conversionsB, testDuration]);
+    const importLevel = Number(confidenceLevel) / 100;
+    const importAlpha = importLevel > 0 && importLevel < 1 ? 1 - importLevel : 0.05;
 
     return (
         <>
+            <DailyDataImport dailyData={dailyData} setDailyData={setDailyData} onImport={handleImport} alpha={importAlpha} hypothesis={hypothesis} margin={Number(margin) / 100} />
             <div className={`${styles.card} ${styles.durationCard}`}>
                 <div className={styles.inputGroup}>
                     <label htmlFor="testDuration">Test Duration (in days)</label>
                     <input id="testDuration" type="number" value={testDuration} onChange={(e) => setTestDuration(e.target.value)} placeholder="e.g., 14" className={styles.inputField} />
+                    <FieldNote messages={messages} field="testDuration" />
+                </div>
+                <div className={styles.inputGroup}>
+                    <label htmlFor="testConfidenceLevel">Confidence Level (%)</label>
+                    <input id="testConfidenceLevel" type="number" value={confidenceLevel} onChange={(e) => setConfidenceLevel(e.target.value)} placeholder="e.g., 95" className={styles.inputField} />
+                    <FieldNote messages={messages} field="confidenceLevel" />
+                </div>
+                <HypothesisInputs idPrefix="test" hypothesis={hypothesis} setHypothesis={setHypothesis} margin={margin} setMargin={setMargin} messages={messages} />
+                <div className={styles.inputGroup}>
+                    <label htmlFor="analysisType">Analysis Type</label>
+                    <select id="analysisType" value={analysisType} onChange={(e) => setAnalysisType(e.target.value as AnalysisType)} className={styles.inputField}>
+                        <option value="fixed-horizon">Fixed horizon (single look)</option>
+                        <option value="sequential">Sequential (repeated looks)</option>
+                    </select>
+                </div>
+                {analysisType === 'sequential' && (
+                    <>
+                        <div className={styles.inputGroup}>
+                            <label htmlFor="spending">Alpha Spending Function</label>
+                            <select id="spending" value={spending} onChange={(e) => setSpending(e.target.value as SpendingFunction)} className={styles.inputField}>
+                                <option value="obrien-fleming">O&apos;Brien-Fleming</option>
+                                <option value="pocock">Pocock</option>
+                            </select>
+                        </div>
+                        <div className={styles.inputGroup}><label htmlFor="plannedLooks">Planned Number of Looks</label><input id="plannedLooks" type="number" value={plannedLooks} onChange={(e) => setPlannedLooks(e.target.value)} placeholder="e.g., 5" className={styles.inputField} /><FieldNote messages={messages} field="plannedLooks" /></div>
+                        <div className={styles.inputGroup}><label htmlFor="currentLook">Current Look</label><input id="currentLook" type="number" value={currentLook} onChange={(e) => setCurrentLook(e.target.value)} placeholder="e.g., 2" className={styles.inputField} /><FieldNote messages={messages} field="currentLook" /></div>
+                    </>
+                )}
+                <div className={styles.inputGroup}>
+                    <label htmlFor="intervalMethod">Conversion Rate Interval</label>
+                    <select id="intervalMethod" value={intervalMethod} onChange={(e) => setIntervalMethod(e.target.value as IntervalMethod)} className={styles.inputField}>
+                        <option value="wilson">Wilson</option>
+                        <option value="agresti-coull">Agresti-Coull</option>
+                    </select>
+                </div>
+                <div className={styles.inputGroup}>
+                    <label htmlFor="testMethod">Test Method</label>
+                    <select id="testMethod" value={testMethod} onChange={(e) => setTestMethod(e.target.value as TestMethodChoice)} className={styles.inputField}>
+                        <option value="auto">Automatic (recommended for the counts)</option>
+                        <option value="z-test">Z-test (normal approximation)</option>
+                        <option value="chi-square">Chi-square test</option>
+                        <option value="yates">Chi-square test with Yates correction</option>
+                        <option value="fisher">Fisher&apos;s exact test</option>
+                    </select>
+                    {results && <p className={styles.helpText}>{recommendationText(results.recommendation, hypothesis)}</p>}
+                </div>
+                <div className={styles.inputGroup}>
+                    <label htmlFor="testCovariateCorrelation">Pre-period Correlation (CUPED, optional)</label>
+                    <input id="testCovariateCorrelation" type="number" value={covariateCorrelation} onChange={(e) => setCovariateCorrelation(e.target.value)} placeholder="e.g., 0.5" className={styles.inputField} />
+                    <p className={styles.helpText}>{cupedData !== '' ? 'Ignored while per-user data is loaded below.' : 'Correlation between each user\'s conversions before and during the test. Adds variance-reduced results next to the unadjusted ones.'}</p>
+                    <FieldNote messages={messages} field="covariateCorrelation" />
                 </div>
+                {variants.length > 1 && (
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="correction">Multiple-comparison Correction</label>
+                        <select id="correction" value={correction} onChange={(e) => setCorrection(e.target.value as CorrectionMethod)} className={styles.inputField}>
+                            <option value="bonferroni">Bonferroni</option>
+                            <option value="holm">Holm</option>
+                            <option value="benjamini-hochberg">Benjamini-Hochberg</option>
+                        </select>
+                    </div>
+                )}
             </div>
             <div className={styles.grid}>
                 <div className={styles.card}>
                     <h2>Control (A)</h2>
-                    <div className={styles.inputGroup}><label htmlFor="visitorsA">Visitors</label><input id="visitorsA" type="number" value={visitorsA} onChange={(e) => setVisitorsA(e.target.value)} placeholder="e.g., 1000" className={styles.inputField} /></div>
-                    <div className={styles.inputGroup}><label htmlFor="conversionsA">Conversions</label><input id="conversionsA" type="number" value={conversionsA} onChange={(e) => setConversionsA(e.target.value)} placeholder="e.g., 100" className={styles.inputField} /></div>
-                    {results && <div className={styles.resultsPreview}><p>Conversion Rate: {formatPercentage(results.convRateA)}</p></div>}
-                </div>
-                <div className={styles.card}>
-                    <h2>Variation (B)</h2>
-                    <div className={styles.inputGroup}><label htmlFor="visitorsB">Visitors</label><input id="visitorsB" type="number" value={visitorsB} onChange={(e) => setVisitorsB(e.target.value)} placeholder="e.g., 1000" className={styles.inputField} /></div>
-                    <div className={styles.inputGroup}><label htmlFor="conversionsB">Conversions</label><input id="conversionsB" type="number" value={conversionsB} onChange={(e) => setConversionsB(e.target.value)} placeholder="e.g., 120" className={styles.inputField} /></div>
-                    {results && <div className={styles.resultsPreview}><p>Conversion Rate: {formatPercentage(results.convRateB)}</p></div>}
+                    <div className={styles.inputGroup}><label htmlFor="visitorsA">Visitors</label><input id="visitorsA" type="number" value={visitorsA} onChange={(e) => setVisitorsA(e.target.value)} placeholder="e.g., 1000" className={styles.inputField} /><FieldNote messages={messages} field="visitorsA" /></div>
+                    <div className={styles.inputGroup}><label htmlFor="conversionsA">Conversions</label><input id="conversionsA" type="number" value={conversionsA} onChange={(e) => setConversionsA(e.target.value)} placeholder="e.g., 100" className={styles.inputField} /><FieldNote messages={messages} field="conversionsA" /></div>
+                    <div className={styles.inputGroup}><label htmlFor="allocationA">Expected Traffic Share (%)</label><input id="allocationA" type="number" value={allocationA} onChange={(e) => setAllocationA(e.target.value)} placeholder={`${(100 / (variants.length + 1)).toFixed(0)} (equal split)`} className={styles.inputField} /><FieldNote messages={messages} field="allocationA" /></div>
+                    {results && <div className={styles.resultsPreview}><p>Conversion Rate: {formatPercentage(results.convRateA)}</p><p className={styles.intervalText}>{confidenceLevel}% CI: {formatInterval(results.intervalA)}</p></div>}
                 </div>
+                {variants.map((variant, i) => {
+                    const label = variantLabel(i);
+                    return (
+                        <div className={styles.card} key={label}>
+                            <div className={styles.cardHeader}>
+                                <h2>Variation ({label})</h2>
+                                {variants.length > 1 && <button className={styles.removeButton} onClick={() => removeVariant(i)} aria-label={`Remove variation ${label}`}>Remove</button>}
+                            </div>
+                            <div className={styles.inputGroup}><label htmlFor={`visitors${label}`}>Visitors</label><input id={`visitors${label}`} type="number" value={variant.visitors} onChange={(e) => updateVariant(i, 'visitors', e.target.value)} placeholder="e.g., 1000" className={styles.inputField} /><FieldNote messages={messages} field={`visitors${label}`} /></div>
+                            <div className={styles.inputGroup}><label htmlFor={`conversions${label}`}>Conversions</label><input id={`conversions${label}`} type="number" value={variant.conversions} onChange={(e) => updateVariant(i, 'conversions', e.target.value)} placeholder="e.g., 120" className={styles.inputField} /><FieldNote messages={messages} field={`conversions${label}`} /></div>
+                            <div className={styles.inputGroup}><label htmlFor={`allocation${label}`}>Expected Traffic Share (%)</label><input id={`allocation${label}`} type="number" value={variant.allocation ?? ''} onChange={(e) => updateVariant(i, 'allocation', e.target.value)} placeholder={`${(100 / (variants.length + 1)).toFixed(0)} (equal split)`} className={styles.inputField} /><FieldNote messages={messages} field={`allocation${label}`} /></div>
+                            {results && <div className={styles.resultsPreview}><p>Conversion Rate: {formatPercentage(results.variantResults[i].convRateB)}</p><p className={styles.intervalText}>{confidenceLevel}% CI: {formatInterval(results.variantResults[i].rateInterval)}</p></div>}
+                        </div>
+                    );
+                })}
             </div>
+            {variants.length < MAX_VARIANTS && (
+                <div className={styles.addVariantContainer}>
+                    <button className={styles.addVariantButton} onClick={addVariant}>+ Add variation</button>
+                </div>
+            )}
+            {!results && <ResultsPlaceholder messages={messages} prompt="Enter visitors and conversions for every arm to see results." />}
             {results && (
                 <div className={styles.results}>
                     <h2>Results</h2>
-                    <div className={styles.resultItem}><span>Uplift</span><span className={styles.resultValue}>{formatPercentage(results.uplift)}</span></div>
-                    <div className={styles.resultItem}><span>Confidence</span><span className={`${styles.resultValue} ${results.isSignificant ? styles.significant : styles.notSignificant}`}>{formatPercentage(results.confidence)}</span></div>
-                    {results.confidence !== null && <p className={styles.summary}>{results.isSignificant ? 'The change is statistically significant.' : 'The change is not statistically significant.'}</p>}
-                    {results.uplift > 0 && results.additionalDaysNeeded !== null && (
-                        <div className={styles.resultItem}>
-                            <span>Additional days needed</span>
-                            <span className={styles.resultValue}>
-                                {results.additionalDaysNeeded === 0 
-                                    ? "Check pre-test analysis for more details" 
-                                    : `${results.additionalDaysNeeded} days`}
-                            </span>
+                    {results.srm?.isMismatch && (
+                        <div className={styles.warningBox} role="alert">
+                            <strong>Sample Ratio Mismatch detected (p = {formatPValue(results.srm.pValue)}).</strong>
+                            <p>
+                                Observed split {results.srm.observedShares.map((share, i) => `${i === 0 ? 'A' : variantLabel(i - 1)} ${formatPercentage(share)}`).join(' / ')} vs
+                                expected {results.srm.expectedShares.map((share, i) => `${i === 0 ? 'A' : variantLabel(i - 1)} ${formatPercentage(share)}`).join(' / ')}.
+                                Traffic was not split as intended, so the results below may be invalid. Check the randomization and tracking before trusting them.
+                            </p>
                         </div>
                     )}
-                    {results.uplift > 0 && results.projectedTotalDuration !== null && results.additionalDaysNeeded !== 0 && (
-                        <div className={styles.resultItem}>
-                            <span>Projected total test duration</span>
-                            <span className={styles.resultValue}>{`${results.projectedTotalDuration} days`}</span>
+                    {results.variantResults.map((result, i) => (
+                        <div key={result.label} className={styles.variantResult}>
+                            {results.variantResults.length > 1 && <h3>Variation ({result.label}) vs Control (A)</h3>}
+                            <div className={styles.resultItem}><span>Uplift</span><span className={styles.resultValue}>{formatPercentage(result.uplift)}</span></div>
+                            <div className={styles.resultItem}><span>{confidenceLevel}% CI for uplift</span><span className={styles.resultValue}>{formatInterval(result.upliftInterval)}</span></div>
+                            <div className={styles.resultItem}><span>Absolute difference</span><span className={styles.resultValue}>{formatPercentage(result.absoluteDifference)} ({formatInterval(result.absoluteInterval)})</span></div>
+                            <div className={styles.resultItem}><span>Confidence</span><span className={`${styles.resultValue} ${result.isSignificant ? styles.significant : styles.notSignificant}`}>{formatPercentage(result.confidence)}</span></div>
+                            <div className={styles.resultItem}><span>P-value ({TEST_METHOD_LABELS[result.testMethod]})</span><span className={styles.resultValue}>{formatPValue(result.pValue)}</span></div>
+                            {results.variantResults.length > 1 && (
+                                <div className={styles.resultItem}><span>Adjusted p-value</span><span className={styles.resultValue}>{formatPValue(result.adjustedPValue)}</span></div>
+                            )}
+                            {cuped && <CupedResult cuped={cuped} index={i} confidenceLevel={confidenceLevel} hypothesis={hypothesis} margin={margin} />}
+                            {sequential ? (
+                                <>
+                                    <div className={styles.resultItem}><span>Efficacy boundary (look {sequential.look})</span><span className={styles.resultValue}>Z ≥ {sequential.boundaries[sequential.look - 1].toFixed(3)}</span></div>
+                                    <div className={styles.resultItem}><span>Current Z</span><span className={styles.resultValue}>{sequential.decisions[i].z.toFixed(3)}</span></div>
+                                    <div className={styles.resultItem}><span>Conditional power (current trend)</span><span className={styles.resultValue}>{formatPercentage(sequential.decisions[i].conditionalPower)}</span></div>
+                                    <p className={`${styles.summary} ${sequential.decisions[i].decision === 'efficacy' ? styles.significant : sequential.decisions[i].decision === 'futility' ? styles.notSignificant : ''}`}>{decisionText[sequential.decisions[i].decision]}</p>
+                                </>
+                            ) : (
+                                <p className={styles.summary}>{verdictText(hypothesis, result.isSignificant, margin)}</p>
+                            )}
+                            {!sequential && result.directionalEffect > 0 && result.additionalDaysNeeded !== null && (
+                                <div className={styles.resultItem}>
+                                    <span>Additional days needed</span>
+                                    <span className={styles.resultValue}>
+                                        {result.additionalDaysNeeded === 0
+                                            ? "Check pre-test analysis for more details"
+                                            : `${result.additionalDaysNeeded} days`}
+                                    </span>
+                                </div>
+                            )}
+                            {!sequential && result.directionalEffect > 0 && result.projectedTotalDuration !== null && result.additionalDaysNeeded !== 0 && (
+                                <div className={styles.resultItem}>
+                                    <span>Projected total test duration</span>
+                                    <span className={styles.resultValue}>{`${result.projectedTotalDuration} days`}</span>
+                                </div>
+                            )}
                         </div>
+                    ))}
+                    {sequential && (
+                        <>
+                            <h3 className={styles.chartTitle}>Sequential boundaries</h3>
+                            <p className={styles.preTestSubtitle}>P-values and confidence above are nominal and are not valid under repeated looks; use the boundaries instead.</p>
+                            <table className={styles.preTestTable}>
+                                <thead>
+                                    <tr>
+                                        <th>Look</th>
+                                        <th>Information</th>
+                                        <th>Efficacy boundary (Z)</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {sequential.boundaries.map((boundary, k) => (
+                                        <tr key={k} className={k + 1 === sequential.look ? styles.currentRow : undefined}>
+                                            <td>{k + 1}</td>
+                                            <td>{formatPercentage(sequential.fractions[k])}</td>
+                                            <td>{boundary.toFixed(3)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
                     )}
+                    <div className={styles.resultItem}>
+                        <span>Sample ratio check (SRM p-value)</span>
+                        <span className={styles.resultValue}>{results.srm ? formatPValue(results.srm.pValue) : 'Enter a share for every arm'}</span>
+                    </div>
+                    <h3 className={styles.chartTitle}>Conversion rates ({confidenceLevel}% CI)</h3>
+                    <IntervalChart reportTitle={`Conversion rates (${confidenceLevel}% CI)`} rows={[
+                        { label: 'A', estimate: results.convRateA, interval: results.intervalA },
+                        ...results.variantResults.map(r => ({ label: r.label, estimate: r.convRateB, interval: r.rateInterval })),
+                    ]} />
+                    <h3 className={styles.chartTitle}>Relative uplift vs A ({confidenceLevel}% CI)</h3>
+                    <IntervalChart reportTitle={`Relative uplift vs A (${confidenceLevel}% CI)`} reference={0} rows={results.variantResults.map(r => ({ label: `${r.label} vs A`, estimate: r.uplift, interval: r.upliftInterval }))} />
+                    <ReportActions buildReport={charts => testAnalysisReport({
+                        control: { visitors: Number(visitorsA), conversions: Number(conversionsA), allocation: optionalNumber(allocationA) },
+                        variants: variants.map(v => ({ visitors: Number(v.visitors), conversions: Number(v.conversions), allocation: optionalNumber(v.allocation) })),
+                        durationDays: Number(testDuration),
+                        confidenceLevel: Number(confidenceLevel),
+                        hypothesis,
+                        margin: Number(margin),
+                        correction,
+                        intervalMethod,
+                        testMethod,
+                        covariateCorrelation: cuped?.source === 'correlation' ? cuped.correlation : null,
+                        sequential: sequential ? { spending, plannedLooks: Number(plannedLooks), currentLook: sequential.look } : null,
+                    }, { ...results, cuped, sequential }, charts)} />
                 </div>
             )}
+            {results && (
+                <BusinessImpact
+                    results={results}
+                    armVisitors={[Number(visitorsA), ...variants.map(v => Number(v.visitors))]}
+                    averageOrderValue={averageOrderValue} setAverageOrderValue={setAverageOrderValue}
+                    monthlyTraffic={monthlyTraffic} setMonthlyTraffic={setMonthlyTraffic}
+                    rolloutMonths={rolloutMonths} setRolloutMonths={setRolloutMonths}
+                    confidenceLevel={confidenceLevel}
+                    sequential={sequential !== null}
+                    messages={messages}
+                />
+            )}
+            <CupedUserData cupedData={cupedData} setCupedData={setCupedData} counts={armCounts} cuped={cuped} />
+            <SegmentBreakdown segmentData={segmentData} setSegmentData={setSegmentData} confidenceLevel={confidenceLevel} hypothesis={hypothesis} margin={margin} correction={correction} intervalMethod={intervalMethod} testMethod={testMethod} />
         </>
     );
 };
 
 // --- MODE 2: PRE-TEST ANALYSIS ---
 
-const PreTestAnalysis = ({ weeklyTraffic, setWeeklyTraffic, weeklyConversions, setWeeklyConversions, confidence, setConfidence, power, setPower }: any) => {
+type PreTestAnalysisProps = {
+    metricType: MetricType; setMetricType: Setter<MetricType>;
+    weeklyTraffic: NumericInput; setWeeklyTraffic: Setter<NumericInput>;
+    weeklyConversions: NumericInput; setWeeklyConversions: Setter<NumericInput>;
+    baselineMean: NumericInput; setBaselineMean: Setter<NumericInput>;
+    baselineSd: NumericInput; setBaselineSd: Setter<NumericInput>;
+    confidence: NumericInput; setConfidence: Setter<NumericInput>;
+    power: NumericInput; setPower: Setter<NumericInput>;
+    hypothesis: Hypothesis; setHypothesis: Setter<Hypothesis>;
+    margin: NumericInput; setMargin: Setter<NumericInput>;
+    solveFor: SolveFor; setSolveFor: Setter<SolveFor>;
+    arms: NumericInput; setArms: Setter<NumericInput>;
+    allocation: string; setAllocation: Setter<string>;
+    exposure: NumericInput; setExposure: Setter<NumericInput>;
+    minWeeks: NumericInput; setMinWeeks: Setter<NumericInput>;
+    maxWeeks: NumericInput; setMaxWeeks: Setter<NumericInput>;
+    mdeCeiling: NumericInput; setMdeCeiling: Setter<NumericInput>;
+    targetMde: NumericInput; setTargetMde: Setter<NumericInput>;
+    powerCurveWeeks: NumericInput; setPowerCurveWeeks: Setter<NumericInput>;
+    covariateCorrelation: NumericInput; setCovariateCorrelation: Setter<NumericInput>;
+    messages: FieldMessage[];
+};
+
+const PreTestAnalysis = ({ metricType, setMetricType, weeklyTraffic, setWeeklyTraffic, weeklyConversions, setWeeklyConversions, baselineMean, setBaselineMean, baselineSd, setBaselineSd, confidence, setConfidence, power, setPower, hypothesis, setHypothesis, margin, setMargin, solveFor, setSolveFor, arms, setArms, allocation, setAllocation, exposure, setExposure, minWeeks, setMinWeeks, maxWeeks, setMaxWeeks, mdeCeiling, setMdeCeiling, targetMde, setTargetMde, powerCurveWeeks, setPowerCurveWeeks, covariateCorrelation, setCovariateCorrelation, messages }: PreTestAnalysisProps) => {
     const preTestResults = useMemo(() => {
-        const traffic = Number(weeklyTraffic);
-        const conversions = Number(weeklyConversions);
-        const conf = Number(confidence) / 100;
-        const pow = Number(power) / 100;
-
-        if (traffic <= 0 || conversions < 0 || conversions > traffic || conf <= 0 || conf >= 1 || pow <= 0 || pow >= 1) return null;
-
-        const baselineConvRate = conversions / traffic;
-        if (baselineConvRate === 0 || baselineConvRate === 1) return null;
-
-        const p1 = baselineConvRate;
-        const alpha = 1 - conf;
-        const beta = 1 - pow;
-        const Z_ALPHA = standardNormalInverseCdf(1 - alpha / 2);
-        const Z_BETA = standardNormalInverseCdf(1 - beta);
-
-        const calculateRequiredN = (mde: number) => {
-            if (mde <= 0) return Infinity;
-            const p2 = p1 * (1 + mde);
-            if (p2 > 1) return Infinity;
-            const term1 = p1 * (1 - p1);
-            const term2 = p2 * (1 - p2);
-            const variance = term1 + term2;
-            const effectSizeSq = (p2 - p1) ** 2;
-            if (effectSizeSq === 0) return Infinity;
-            return ((Z_ALPHA + Z_BETA) ** 2 * variance) / effectSizeSq;
-        };
+        const armCount = Number(arms);
+        if (!Number.isInteger(armCount) || armCount < 2) return null;
+        const shares = parseAllocation(allocation, armCount);
+        if (!shares) return null;
 
-        const durationResults = [];
-        for (let weeks = 1; weeks <= 6; weeks++) {
-            const durationInDays = weeks * 7;
-            const dailyTraffic = traffic / 7;
-            const sampleSizePerVariation = (dailyTraffic * durationInDays) / 2;
-
-            let lowMde = 0;
-            let highMde = 5; // Search up to 500% MDE
-            let mde = null;
-
-            for(let i = 0; i < 100; i++) { // 100 iterations for precision
-                const midMde = (lowMde + highMde) / 2;
-                if (midMde === 0) break;
-                const requiredN = calculateRequiredN(midMde);
-                
-                if (requiredN > sampleSizePerVariation) {
-                    lowMde = midMde;
-                } else {
-                    highMde = midMde;
-                }
-            }
-            
-            if (highMde < 5) { // Found a reasonable MDE
-                 mde = highMde;
-            }
+        return planTest({
+            metricType,
+            weeklyTraffic: Number(weeklyTraffic),
+            weeklyConversions: Number(weeklyConversions),
+            baselineMean: Number(baselineMean),
+            baselineSd: Number(baselineSd),
+            confidenceLevel: Number(confidence) / 100,
+            power: Number(power) / 100,
+            hypothesis,
+            margin: Number(margin) / 100,
+            arms: armCount,
+            allocation: shares,
+            exposure: Number(exposure) / 100,
+            mdeCeiling: Number(mdeCeiling) / 100,
+            solveFor,
+            minWeeks: Number(minWeeks),
+            maxWeeks: Number(maxWeeks),
+            targetMde: Number(targetMde) / 100,
+            covariateCorrelation: optionalNumber(covariateCorrelation),
+        });
+    }, [metricType, weeklyTraffic, weeklyConversions, baselineMean, baselineSd, confidence, power, hypothesis, margin, solveFor, arms, allocation, exposure, minWeeks, maxWeeks, mdeCeiling, targetMde, covariateCorrelation]);
 
-            durationResults.push({
-                weeks: `${weeks} week${weeks > 1 ? 's' : ''}`,
-                mde: mde === null ? 'N/A' : `${(mde * 100).toFixed(2)}%`,
-            });
-        }
-        
-        return { durationResults };
+    const charts = useMemo(() => {
+        if (!preTestResults) return null;
+        const { planner, requirement } = preTestResults;
+        const { mdeForSample, achievedPower, dailyExperimentTraffic } = planner;
+        const target = Number(targetMde) / 100;
+        const lastWeek = Number(maxWeeks);
+
+        // MDE against duration, one point per day (thinned to ~200 points for long ranges)
+        const chartDays = requirement
+            ? Math.min(MAX_PLANNING_WEEKS * 7, Math.max(14, Math.ceil(requirement.days * 1.5)))
+            : (Number.isInteger(lastWeek) && lastWeek > 0 ? lastWeek * 7 : 42);
+        const step = Math.max(1, Math.ceil(chartDays / 200));
+        const days: number[] = [];
+        for (let day = step; day <= chartDays; day += step) days.push(day);
+        const mdeValues = days.map(day => mdeForSample(dailyExperimentTraffic * day));
+        const targetIndex = target > 0 ? mdeValues.findIndex(value => value !== null && value <= target) : -1;
 
-    }, [weeklyTraffic, weeklyConversions, confidence, power]);
+        // Power against the true effect for the chosen duration
+        const curveDays = requirement ? requirement.days : Number(powerCurveWeeks) * 7;
+        if (!(curveDays > 0)) return { days, mdeValues, targetIndex, curve: null };
+        const curveSample = dailyExperimentTraffic * curveDays;
+        const mdeAtDuration = mdeForSample(curveSample);
+        const maxEffect = Math.max(mdeAtDuration !== null ? mdeAtDuration * 2 : 0, target * 1.5, 0.01);
+        const effects = Array.from({ length: 101 }, (_, i) => (i / 100) * maxEffect);
+        const powerValues = effects.map(effect => achievedPower(effect, curveSample));
+        const targetEffectIndex = target > 0 ? Math.min(100, Math.round((target / maxEffect) * 100)) : -1;
+
+        return { days, mdeValues, targetIndex, curve: { curveDays, effects, powerValues, targetEffectIndex } };
+    }, [preTestResults, targetMde, maxWeeks, powerCurveWeeks]);
+
+    const hypothesisLabel = hypothesis === 'two-sided' ? 'two-sided test' : hypothesis === 'non-inferiority' ? `non-inferiority, ${margin}% margin` : 'one-sided test';
+    const varianceReduction = preTestResults?.varianceReduction ?? null;
+    const cupedLabel = varianceReduction === null ? '' : `With CUPED (${cupedText({ source: 'correlation', correlation: Number(covariateCorrelation), varianceReduction })})`;
 
     return (
         <div className={styles.preTestContainer}>
             <div className={styles.grid}>
                 <div className={styles.card}>
                     <h2>Parameters</h2>
-                    <div className={styles.inputGroup}><label htmlFor="weeklyTraffic">Average Weekly Traffic</label><input id="weeklyTraffic" type="number" value={weeklyTraffic} onChange={(e) => setWeeklyTraffic(e.target.value)} placeholder="e.g., 20000" className={styles.inputField} /></div>
-                    <div className={styles.inputGroup}><label htmlFor="weeklyConversions">Average Weekly Conversions</label><input id="weeklyConversions" type="number" value={weeklyConversions} onChange={(e) => setWeeklyConversions(e.target.value)} placeholder="e.g., 400" className={styles.inputField} /></div>
-                    <div className={styles.inputGroup}><label htmlFor="confidence">Confidence Level (%)</label><input id="confidence" type="number" value={confidence} onChange={(e) => setConfidence(e.target.value)} placeholder="e.g., 95" className={styles.inputField} /></div>
-                    <div className={styles.inputGroup}><label htmlFor="power">Statistical Power (%)</label><input id="power" type="number" value={power} onChange={(e) => setPower(e.target.value)} placeholder="e.g., 80" className={styles.inputField} /></div>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="solveFor">Solve For</label>
+                        <select id="solveFor" value={solveFor} onChange={(e) => setSolveFor(e.target.value as SolveFor)} className={styles.inputField}>
+                            <option value="mde">MDE for each duration</option>
+                            <option value="duration">Duration / sample size for a target MDE</option>
+                            <option value="power">Power for a target MDE and each duration</option>
+                        </select>
+                    </div>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="metricType">Metric</label>
+                        <select id="metricType" value={metricType} onChange={(e) => setMetricType(e.target.value as MetricType)} className={styles.inputField}>
+                            <option value="conversion">Conversion rate</option>
+                            <option value="continuous">Continuous (revenue, AOV, …)</option>
+                        </select>
+                    </div>
+                    <div className={styles.inputGroup}><label htmlFor="weeklyTraffic">Average Weekly Traffic</label><input id="weeklyTraffic" type="number" value={weeklyTraffic} onChange={(e) => setWeeklyTraffic(e.target.value)} placeholder="e.g., 20000" className={styles.inputField} /><FieldNote messages={messages} field="weeklyTraffic" /></div>
+                    {metricType === 'continuous' ? (
+                        <>
+                            <div className={styles.inputGroup}><label htmlFor="baselineMean">Baseline Mean (per visitor)</label><input id="baselineMean" type="number" value={baselineMean} onChange={(e) => setBaselineMean(e.target.value)} placeholder="e.g., 4.20" className={styles.inputField} /><FieldNote messages={messages} field="baselineMean" /></div>
+                            <div className={styles.inputGroup}><label htmlFor="baselineSd">Baseline Standard Deviation</label><input id="baselineSd" type="number" value={baselineSd} onChange={(e) => setBaselineSd(e.target.value)} placeholder="e.g., 18.5" className={styles.inputField} /><FieldNote messages={messages} field="baselineSd" /></div>
+                        </>
+                    ) : (
+                        <div className={styles.inputGroup}><label htmlFor="weeklyConversions">Average Weekly Conversions</label><input id="weeklyConversions" type="number" value={weeklyConversions} onChange={(e) => setWeeklyConversions(e.target.value)} placeholder="e.g., 400" className={styles.inputField} /><FieldNote messages={messages} field="weeklyConversions" /></div>
+                    )}
+                    <div className={styles.inputGroup}><label htmlFor="exposure">Traffic in Experiment (%)</label><input id="exposure" type="number" value={exposure} onChange={(e) => setExposure(e.target.value)} placeholder="e.g., 100" className={styles.inputField} /><FieldNote messages={messages} field="exposure" /></div>
+                    <div className={styles.inputGroup}><label htmlFor="arms">Number of Arms (incl. control)</label><input id="arms" type="number" value={arms} onChange={(e) => setArms(e.target.value)} placeholder="e.g., 2" className={styles.inputField} /><FieldNote messages={messages} field="arms" /></div>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="allocation">Traffic Split (%)</label>
+                        <input id="allocation" type="text" value={allocation} onChange={(e) => setAllocation(e.target.value)} placeholder="Equal split, or e.g. 90/10" className={styles.inputField} />
+                        <p className={styles.helpText}>Control first, one share per arm separated by &quot;/&quot;. Leave blank for an equal split.</p>
+                        <FieldNote messages={messages} field="allocation" />
+                    </div>
+                    <div className={styles.inputGroup}><label htmlFor="confidence">Confidence Level (%)</label><input id="confidence" type="number" value={confidence} onChange={(e) => setConfidence(e.target.value)} placeholder="e.g., 95" className={styles.inputField} /><FieldNote messages={messages} field="confidence" /></div>
+                    <div className={styles.inputGroup}><label htmlFor="power">Statistical Power (%){solveFor === 'power' ? ', for the MDE chart and the power curve' : ''}</label><input id="power" type="number" value={power} onChange={(e) => setPower(e.target.value)} placeholder="e.g., 80" className={styles.inputField} /><FieldNote messages={messages} field="power" /></div>
+                    <HypothesisInputs idPrefix="preTest" hypothesis={hypothesis} setHypothesis={setHypothesis} margin={margin} setMargin={setMargin} messages={messages} />
+                    {solveFor === 'mde' && (
+                        <div className={styles.inputGroup}><label htmlFor="mdeCeiling">MDE Search Ceiling (%)</label><input id="mdeCeiling" type="number" value={mdeCeiling} onChange={(e) => setMdeCeiling(e.target.value)} placeholder="e.g., 500" className={styles.inputField} /><FieldNote messages={messages} field="mdeCeiling" /></div>
+                    )}
+                    <div className={styles.inputGroup}><label htmlFor="targetMde">Target MDE (% relative){solveFor === 'mde' ? ', marked on the charts' : ''}</label><input id="targetMde" type="number" value={targetMde} onChange={(e) => setTargetMde(e.target.value)} placeholder="e.g., 5" className={styles.inputField} /><FieldNote messages={messages} field="targetMde" /></div>
+                    <div className={styles.inputGroup}>
+                        <label htmlFor="preTestCovariateCorrelation">Pre-period Correlation (CUPED, optional)</label>
+                        <input id="preTestCovariateCorrelation" type="number" value={covariateCorrelation} onChange={(e) => setCovariateCorrelation(e.target.value)} placeholder="e.g., 0.5" className={styles.inputField} />
+                        <p className={styles.helpText}>Correlation between each user&apos;s metric before and during a test, from your platform or past tests. Leave blank to plan without variance reduction.</p>
+                        <FieldNote messages={messages} field="covariateCorrelation" />
+                    </div>
+                    {solveFor !== 'duration' && (
+                        <div className={styles.grid}>
+                            <div className={styles.inputGroup}><label htmlFor="minWeeks">From (weeks)</label><input id="minWeeks" type="number" value={minWeeks} onChange={(e) => setMinWeeks(e.target.value)} placeholder="e.g., 1" className={styles.inputField} /><FieldNote messages={messages} field="minWeeks" /></div>
+                            <div className={styles.inputGroup}><label htmlFor="maxWeeks">To (weeks)</label><input id="maxWeeks" type="number" value={maxWeeks} onChange={(e) => setMaxWeeks(e.target.value)} placeholder="e.g., 6" className={styles.inputField} /><FieldNote messages={messages} field="maxWeeks" /></div>
+                        </div>
+                    )}
                 </div>
             </div>
+            {!preTestResults && <ResultsPlaceholder messages={messages} prompt={metricType === 'continuous' ? 'Enter weekly traffic, the baseline mean and its standard deviation to see the plan.' : 'Enter weekly traffic and conversions to see the plan.'} />}
+            {preTestResults && preTestResults.requirement && (
+                <div className={styles.results}>
+                    <h2>Required Sample Size</h2>
+                    <p className={styles.preTestSubtitle}>To detect a {targetMde}% change with {confidence}% significance and {power}% power ({hypothesisLabel}).</p>
+                    <div className={styles.resultItem}><span>Visitors in experiment</span><span className={styles.resultValue}>{preTestResults.requirement.requiredTotal.toLocaleString()}</span></div>
+                    {preTestResults.requirement.perArm.map((count, i) => (
+                        <div className={styles.resultItem} key={i}><span>{i === 0 ? 'Control (A)' : `Variation (${variantLabel(i - 1)})`}</span><span className={styles.resultValue}>{count.toLocaleString()}</span></div>
+                    ))}
+                    <div className={styles.resultItem}><span>Test duration</span><span className={styles.resultValue}>{preTestResults.requirement.days} days ({(preTestResults.requirement.days / 7).toFixed(1)} weeks)</span></div>
+                    {preTestResults.requirement.cuped && (
+                        <>
+                            <p className={styles.preTestSubtitle}>{cupedLabel}:</p>
+                            <div className={styles.resultItem}><span>Visitors in experiment with CUPED</span><span className={styles.resultValue}>{preTestResults.requirement.cuped.requiredTotal.toLocaleString()}</span></div>
+                            <div className={styles.resultItem}><span>Test duration with CUPED</span><span className={`${styles.resultValue} ${styles.significant}`}>{preTestResults.requirement.cuped.days} days ({(preTestResults.requirement.cuped.days / 7).toFixed(1)} weeks)</span></div>
+                        </>
+                    )}
+                </div>
+            )}
             {preTestResults && preTestResults.durationResults.length > 0 && (
                 <div className={styles.results}>
-                    <h2>Minimum Detectable Effect (MDE)</h2>
-                     <p className={styles.preTestSubtitle}>To reach {confidence}% significance and {power}% power.</p>
+                    <h2>{preTestResults.solveFor === 'power' ? 'Achieved Statistical Power' : 'Minimum Detectable Effect (MDE)'}</h2>
+                    <p className={styles.preTestSubtitle}>
+                        {preTestResults.solveFor === 'power'
+                            ? `To detect a ${targetMde}% change with ${confidence}% significance (${hypothesisLabel}).`
+                            : `To reach ${confidence}% significance and ${power}% power (${hypothesisLabel}).`}
+                    </p>
+                    {varianceReduction !== null && (
+                        <p className={styles.preTestSubtitle}>
+                            {cupedLabel}, {preTestResults.solveFor === 'power' ? 'each duration reaches the power in the last column' : `each MDE is reached in ${formatPercentage(1 - varianceReduction)} of the time, ${formatPercentage(varianceReduction)} sooner`}.
+                        </p>
+                    )}
                     <table className={styles.preTestTable}>
                         <thead>
                             <tr>
                                 <th>Test Duration</th>
-                                <th>Minimum Detectable Effect</th>
+                                <th>{preTestResults.solveFor === 'power' ? 'Power' : 'Minimum Detectable Effect'}</th>
+                                {varianceReduction !== null && <th>{preTestResults.solveFor === 'power' ? 'Power with CUPED' : 'Reached with CUPED in'}</th>}
                             </tr>
                         </thead>
                         <tbody>
                             {preTestResults.durationResults.map(result => (
                                 <tr key={result.weeks}>
-                                    <td>{result.weeks}</td>
-                                    <td>{result.mde}</td>
+                                    <td>{result.weeks} week{result.weeks > 1 ? 's' : ''}</td>
+                                    <td>{formatPercentage(result.value)}</td>
+                                    {varianceReduction !== null && (
+                                        <td>{preTestResults.solveFor === 'power' ? formatPercentage(result.cuped) : result.cuped === null || result.cuped === undefined ? 'N/A' : `${result.cuped} days`}</td>
+                                    )}
                                 </tr>
                             ))}
                         </tbody>
                     </table>
                 </div>
             )}
+            {charts && (
+                <div className={`${styles.results} ${styles.chartsPanel}`}>
+                    <h2>Charts</h2>
+                    <h3 className={styles.chartTitle}>MDE by test duration</h3>
+                    <LineChart
+                        xLabels={charts.days.map(day => `${day} day${day > 1 ? 's' : ''}`)}
+                        series={[{ label: 'MDE', values: charts.mdeValues }]}
+                        reference={Number(targetMde) > 0 ? Number(targetMde) / 100 : undefined}
+                        highlight={charts.targetIndex >= 0 ? { index: charts.targetIndex, value: charts.mdeValues[charts.targetIndex] as number, label: `Target ${targetMde}% reached after ${charts.days[charts.targetIndex]} days` } : undefined}
+                        formatValue={formatPercentage}
+                        reportTitle="MDE by test duration"
+                    />
+                    <h3 className={styles.chartTitle}>Power curve{charts.curve ? ` (${charts.curve.curveDays} days)` : ''}</h3>
+                    {!preTestResults?.requirement && (
+                        <div className={styles.inputGroup}><label htmlFor="powerCurveWeeks">Duration for the power curve (weeks)</label><input id="powerCurveWeeks" type="number" value={powerCurveWeeks} onChange={(e) => setPowerCurveWeeks(e.target.value)} placeholder="e.g., 4" className={styles.inputField} /><FieldNote messages={messages} field="powerCurveWeeks" /></div>
+                    )}
+                    {charts.curve && (
+                        <LineChart
+                            xLabels={charts.curve.effects.map(effect => `True effect ${formatPercentage(effect)}`)}
+                            series={[{ label: 'Power', values: charts.curve.powerValues }]}
+                            reference={Number(power) / 100}
+                            highlight={charts.curve.targetEffectIndex >= 0 && charts.curve.powerValues[charts.curve.targetEffectIndex] !== null ? { index: charts.curve.targetEffectIndex, value: charts.curve.powerValues[charts.curve.targetEffectIndex] as number, label: `Target ${targetMde}%: ${formatPercentage(charts.curve.powerValues[charts.curve.targetEffectIndex])} power` } : undefined}
+                            formatValue={formatPercentage}
+                            reportTitle={`Power curve (${charts.curve.curveDays} days)`}
+                        />
+                    )}
+                </div>
+            )}
+            {preTestResults && (
+                <ReportActions buildReport={charts => planningReport({
+                    metricType,
+                    weeklyTraffic: Number(weeklyTraffic),
+                    weeklyConversions: Number(weeklyConversions),
+                    baselineMean: Number(baselineMean),
+                    baselineSd: Number(baselineSd),
+                    confidence: Number(confidence),
+                    power: Number(power),
+                    hypothesis,
+                    margin: Number(margin),
+                    solveFor,
+                    arms: Number(arms),
+                    allocation: parseAllocation(allocation, Number(arms)) ?? [],
+                    exposure: Number(exposure),
+                    minWeeks: Number(minWeeks),
+                    maxWeeks: Number(maxWeeks),
+                    mdeCeiling: Number(mdeCeiling),
+                    targetMde: Number(targetMde),
+                    covariateCorrelation: optionalNumber(covariateCorrelation) ?? null,
+                }, preTestResults, charts)} />
+            )}
+        </div>
+    );
+};
+
+// --- MODE 3: BAYESIAN ANALYSIS ---
+
+type BayesianAnalysisProps = {
+    visitorsA: NumericInput; setVisitorsA: Setter<NumericInput>;
+    conversionsA: NumericInput; setConversionsA: Setter<NumericInput>;
+    visitorsB: NumericInput; setVisitorsB: Setter<NumericInput>;
+    conversionsB: NumericInput; setConversionsB: Setter<NumericInput>;
+    priorAlpha: NumericInput; setPriorAlpha: Setter<NumericInput>;
+    priorBeta: NumericInput; setPriorBeta: Setter<NumericInput>;
+    messages: FieldMessage[];
+};
+
+const BayesianAnalysis = ({ visitorsA, setVisitorsA, conversionsA, setConversionsA, visitorsB, setVisitorsB, conversionsB, setConversionsB, priorAlpha, setPriorAlpha, priorBeta, setPriorBeta, messages }: BayesianAnalysisProps) => {
+    const results = useMemo(() => analyzeBayesian({
+        control: { visitors: Number(visitorsA), conversions: Number(conversionsA) },
+        variant: { visitors: Number(visitorsB), conversions: Number(conversionsB) },
+        priorAlpha: Number(priorAlpha),
+        priorBeta: Number(priorBeta),
+    }), [visitorsA, conversionsA, visitorsB, conversionsB, priorAlpha, priorBeta]);
+
+    return (
+        <>
+            <div className={`${styles.card} ${styles.durationCard}`}>
+                <h2>Prior (Beta distribution)</h2>
+                <div className={styles.grid}>
+                    <div className={styles.inputGroup}><label htmlFor="priorAlpha">Prior α (successes)</label><input id="priorAlpha" type="number" value={priorAlpha} onChange={(e) => setPriorAlpha(e.target.value)} placeholder="e.g., 1" className={styles.inputField} /><FieldNote messages={messages} field="priorAlpha" /></div>
+                    <div className={styles.inputGroup}><label htmlFor="priorBeta">Prior β (failures)</label><input id="priorBeta" type="number" value={priorBeta} onChange={(e) => setPriorBeta(e.target.value)} placeholder="e.g., 1" className={styles.inputField} /><FieldNote messages={messages} field="priorBeta" /></div>
+                </div>
+            </div>
+            <div className={styles.grid}>
+                <div className={styles.card}>
+                    <h2>Control (A)</h2>
+                    <div className={styles.inputGroup}><label htmlFor="bayesVisitorsA">Visitors</label><input id="bayesVisitorsA" type="number" value={visitorsA} onChange={(e) => setVisitorsA(e.target.value)} placeholder="e.g., 1000" className={styles.inputField} /><FieldNote messages={messages} field="visitorsA" /></div>
+                    <div className={styles.inputGroup}><label htmlFor="bayesConversionsA">Conversions</label><input id="bayesConversionsA" type="number" value={conversionsA} onChange={(e) => setConversionsA(e.target.value)} placeholder="e.g., 100" className={styles.inputField} /><FieldNote messages={messages} field="conversionsA" /></div>
+                    {results && <div className={styles.resultsPreview}><p>Posterior Mean: {formatPercentage(results.posteriorMeanA)}</p></div>}
+                </div>
+                <div className={styles.card}>
+                    <h2>Variation (B)</h2>
+                    <div className={styles.inputGroup}><label htmlFor="bayesVisitorsB">Visitors</label><input id="bayesVisitorsB" type="number" value={visitorsB} onChange={(e) => setVisitorsB(e.target.value)} placeholder="e.g., 1000" className={styles.inputField} /><FieldNote messages={messages} field="visitorsB" /></div>
+                    <div className={styles.inputGroup}><label htmlFor="bayesConversionsB">Conversions</label><input id="bayesConversionsB" type="number" value={conversionsB} onChange={(e) => setConversionsB(e.target.value)} placeholder="e.g., 120" className={styles.inputField} /><FieldNote messages={messages} field="conversionsB" /></div>
+                    {results && <div className={styles.resultsPreview}><p>Posterior Mean: {formatPercentage(results.posteriorMeanB)}</p></div>}
+                </div>
+            </div>
+            {!results && <ResultsPlaceholder messages={messages} prompt="Enter visitors and conversions for both arms to see results." />}
+            {results && (
+                <div className={styles.results}>
+                    <h2>Results</h2>
+                    <div className={styles.resultItem}><span>Probability B beats A</span><span className={styles.resultValue}>{formatPercentage(results.probBBeatsA)}</span></div>
+                    <div className={styles.resultItem}><span>Expected loss if shipping A</span><span className={styles.resultValue}>{formatPercentage(results.expectedLossA)}</span></div>
+                    <div className={styles.resultItem}><span>Expected loss if shipping B</span><span className={styles.resultValue}>{formatPercentage(results.expectedLossB)}</span></div>
+                    <div className={styles.resultItem}><span>Relative uplift (median)</span><span className={styles.resultValue}>{formatPercentage(results.upliftMedian)}</span></div>
+                    <div className={styles.resultItem}><span>{CREDIBLE_LEVEL * 100}% credible interval for uplift</span><span className={styles.resultValue}>{formatPercentage(results.upliftLower)} to {formatPercentage(results.upliftUpper)}</span></div>
+                    <p className={styles.summary}>There is a {formatPercentage(results.probBBeatsA)} chance that B has a higher conversion rate than A.</p>
+                    <p className={styles.preTestSubtitle}>Expected loss is the conversion rate, in absolute points, you would give up on average by shipping an arm if it is actually the worse one.</p>
+                </div>
+            )}
+        </>
+    );
+};
+
+// --- MODE 4: CONTINUOUS METRIC ANALYSIS ---
+
+type ContinuousInputMethod = 'summary' | 'raw';
+
+type ContinuousAnalysisProps = {
+    inputMethod: ContinuousInputMethod; setInputMethod: Setter<ContinuousInputMethod>;
+    meanA: NumericInput; setMeanA: Setter<NumericInput>;
+    sdA: NumericInput; setSdA: Setter<NumericInput>;
+    nA: NumericInput; setNA: Setter<NumericInput>;
+    meanB: NumericInput; setMeanB: Setter<NumericInput>;
+    sdB: NumericInput; setSdB: Setter<NumericInput>;
+    nB: NumericInput; setNB: Setter<NumericInput>;
+    rawA: string; setRawA: Setter<string>;
+    rawB: string; setRawB: Setter<string>;
+    confidenceLevel: NumericInput; setConfidenceLevel: Setter<NumericInput>;
+    hypothesis: Hypothesis; setHypothesis: Setter<Hypothesis>;
+    margin: NumericInput; setMargin: Setter<NumericInput>;
+    messages: FieldMessage[];
+};
+
+const ContinuousAnalysis = ({ inputMethod, setInputMethod, meanA, setMeanA, sdA, setSdA, nA, setNA, meanB, setMeanB, sdB, setSdB, nB, setNB, rawA, setRawA, rawB, setRawB, confidenceLevel, setConfidenceLevel, hypothesis, setHypothesis, margin, setMargin, messages }: ContinuousAnalysisProps) => {
+    const parsedRaw = useMemo(() => (inputMethod === 'raw' ? { a: parseRawValues(rawA), b: parseRawValues(rawB) } : null), [inputMethod, rawA, rawB]);
+
+    const summaries = useMemo(() => {
+        if (parsedRaw) {
+            if (parsedRaw.a.errors.length > 0 || parsedRaw.b.errors.length > 0) return null;
+            const a = summarizeValues(parsedRaw.a.values);
+            const b = summarizeValues(parsedRaw.b.values);
+            return a && b ? { a, b } : null;
+        }
+        const a = { mean: Number(meanA), sd: Number(sdA), n: Number(nA) };
+        const b = { mean: Number(meanB), sd: Number(sdB), n: Number(nB) };
+        if ([meanA, sdA, nA, meanB, sdB, nB].some(v => v === '')) return null;
+        if (a.n < 2 || b.n < 2 || a.sd < 0 || b.sd < 0) return null;
+        return { a, b };
+    }, [parsedRaw, meanA, sdA, nA, meanB, sdB, nB]);
+
+    const results = useMemo(() => {
+        const level = Number(confidenceLevel) / 100;
+        if (!summaries || level <= 0 || level >= 1) return null;
+        if (summaries.a.sd === 0 && summaries.b.sd === 0) return null;
+        const relativeMargin = Number(margin) / 100;
+        if (hypothesis === 'non-inferiority' && !(relativeMargin > 0 && relativeMargin < 1)) return null;
+        return welchTTest(summaries.a, summaries.b, 1 - level, hypothesis, relativeMargin);
+    }, [summaries, confidenceLevel, hypothesis, margin]);
+
+    const [fileErrors, setFileErrors] = useState<Record<'A' | 'B', string[]>>({ A: [], B: [] });
+
+    const handleFile = (group: 'A' | 'B') => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(text => {
+            setFileErrors(prev => ({ ...prev, [group]: [] }));
+            (group === 'A' ? setRawA : setRawB)(text);
+        }).catch(err => setFileErrors(prev => ({ ...prev, [group]: [`Could not read file: ${err}`] })));
+        e.target.value = '';
+    };
+
+    const groupCard = (group: 'A' | 'B') => {
+        const isA = group === 'A';
+        const summary = summaries ? (isA ? summaries.a : summaries.b) : null;
+        const rawErrors = [...fileErrors[group], ...(parsedRaw ? (isA ? parsedRaw.a.errors : parsedRaw.b.errors) : [])];
+        return (
+            <div className={styles.card}>
+                <h2>{isA ? 'Control (A)' : 'Variation (B)'}</h2>
+                {inputMethod === 'summary' ? (
+                    <>
+                        <div className={styles.inputGroup}><label htmlFor={`mean${group}`}>Mean</label><input id={`mean${group}`} type="number" value={isA ? meanA : meanB} onChange={(e) => (isA ? setMeanA : setMeanB)(e.target.value)} placeholder="e.g., 4.20" className={styles.inputField} /></div>
+                        <div className={styles.inputGroup}><label htmlFor={`sd${group}`}>Standard Deviation</label><input id={`sd${group}`} type="number" value={isA ? sdA : sdB} onChange={(e) => (isA ? setSdA : setSdB)(e.target.value)} placeholder="e.g., 18.5" className={styles.inputField} /><FieldNote messages={messages} field={`sd${group}`} /></div>
+                        <div className={styles.inputGroup}><label htmlFor={`n${group}`}>Sample Size</label><input id={`n${group}`} type="number" value={isA ? nA : nB} onChange={(e) => (isA ? setNA : setNB)(e.target.value)} placeholder="e.g., 5000" className={styles.inputField} /><FieldNote messages={messages} field={`n${group}`} /></div>
+                    </>
+                ) : (
+                    <>
+                        <div className={styles.inputGroup}>
+                            <label htmlFor={`raw${group}`}>Per-user values</label>
+                            <textarea id={`raw${group}`} value={isA ? rawA : rawB} onChange={(e) => (isA ? setRawA : setRawB)(e.target.value)} rows={6} placeholder={'0\n12.50\n0\n48.99'} className={styles.textArea} />
+                            <FieldNote messages={messages} field={`raw${group}`} />
+                        </div>
+                        <label className={styles.fileLabel}>Upload file<input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" onChange={handleFile(group)} /></label>
+                        {rawErrors.length > 0 && (
+                            <ul className={styles.errorList}>
+                                {rawErrors.slice(0, 10).map(error => <li key={error}>{error}</li>)}
+                                {rawErrors.length > 10 && <li>…and {rawErrors.length - 10} more.</li>}
+                            </ul>
+                        )}
+                    </>
+                )}
+                {summary && (
+                    <div className={styles.resultsPreview}>
+                        <p>Mean: {formatNumber(summary.mean)}</p>
+                        {inputMethod === 'raw' && <p className={styles.intervalText}>SD {formatNumber(summary.sd)}, n = {summary.n}</p>}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <>
+            <div className={`${styles.card} ${styles.durationCard}`}>
+                <div className={styles.inputGroup}>
+                    <label htmlFor="continuousInputMethod">Input</label>
+                    <select id="continuousInputMethod" value={inputMethod} onChange={(e) => setInputMethod(e.target.value as ContinuousInputMethod)} className={styles.inputField}>
+                        <option value="summary">Summary statistics (mean, SD, n)</option>
+                        <option value="raw">Raw per-user values</option>
+                    </select>
+                </div>
+                <div className={styles.inputGroup}><label htmlFor="continuousConfidenceLevel">Confidence Level (%)</label><input id="continuousConfidenceLevel" type="number" value={confidenceLevel} onChange={(e) => setConfidenceLevel(e.target.value)} placeholder="e.g., 95" className={styles.inputField} /><FieldNote messages={messages} field="confidenceLevel" /></div>
+                <HypothesisInputs idPrefix="continuous" hypothesis={hypothesis} setHypothesis={setHypothesis} margin={margin} setMargin={setMargin} messages={messages} />
+            </div>
+            <div className={styles.grid}>
+                {groupCard('A')}
+                {groupCard('B')}
+            </div>
+            {!results && <ResultsPlaceholder messages={messages} prompt={inputMethod === 'raw' ? 'Enter at least two values for each group to see results.' : 'Enter the mean, standard deviation and sample size of both groups to see results.'} />}
+            {results && (
+                <div className={styles.results}>
+                    <h2>Results (Welch&apos;s t-test)</h2>
+                    <div className={styles.resultItem}><span>Difference (B - A)</span><span className={styles.resultValue}>{formatNumber(results.difference)}</span></div>
+                    <div className={styles.resultItem}><span>{confidenceLevel}% CI for difference</span><span className={styles.resultValue}>{formatNumber(results.differenceInterval.lower)} to {formatNumber(results.differenceInterval.upper)}</span></div>
+                    <div className={styles.resultItem}><span>Relative lift</span><span className={styles.resultValue}>{formatPercentage(results.relativeLift)}</span></div>
+                    <div className={styles.resultItem}><span>{confidenceLevel}% CI for lift</span><span className={styles.resultValue}>{formatInterval(results.relativeInterval)}</span></div>
+                    <div className={styles.resultItem}><span>t-statistic (df)</span><span className={styles.resultValue}>{results.tScore.toFixed(3)} ({results.degreesOfFreedom.toFixed(1)})</span></div>
+                    <div className={styles.resultItem}><span>Confidence</span><span className={`${styles.resultValue} ${results.isSignificant ? styles.significant : styles.notSignificant}`}>{formatPercentage(1 - results.pValue)}</span></div>
+                    <div className={styles.resultItem}><span>P-value (Welch&apos;s t-test)</span><span className={styles.resultValue}>{formatPValue(results.pValue)}</span></div>
+                    <p className={styles.summary}>{verdictText(hypothesis, results.isSignificant, margin)}</p>
+                </div>
+            )}
+        </>
+    );
+};
+
+// --- SAVED EXPERIMENTS ---
+
+const MODE_LABELS: Record<SavedMode, string> = {
+    'test-analysis': 'Test Analysis',
+    'pre-test-analysis': 'Pre-test Analysis',
+    'bayesian-analysis': 'Bayesian Analysis',
+    'continuous-analysis': 'Revenue / AOV',
+};
+
+const formatMetric = (value: SavedMetric['value'] | undefined, format: MetricFormat) => {
+    if (value === undefined) return '—';
+    if (value === null) return 'N/A';
+    if (typeof value === 'string') return value;
+    if (format === 'percent') return formatPercentage(value);
+    if (format === 'p-value') return formatPValue(value);
+    return formatNumber(value);
+};
+
+const LINK_OMISSION_LABELS: Record<(typeof LINK_OMITTED_FIELDS)[number], string> = {
+    dailyData: 'daily data',
+    segmentData: 'segment data',
+    cupedData: 'CUPED per-user data',
+    rawA: 'raw values (it carries their mean, SD and n)',
+    rawB: 'raw values (it carries their mean, SD and n)',
+};
+
+const formatDates = (entry: SavedExperiment) => (entry.startDate || entry.endDate ? `${entry.startDate || '?'} to ${entry.endDate || '?'}` : '');
+
+type SavedExperimentsProps = {
+    library: SavedExperiment[];
+    setLibrary: Setter<SavedExperiment[]>;
+    /** Inputs of the active mode in share link form. */
+    currentInputs: () => Record<string, string>;
+    onOpen: (state: SharedState) => void;
+};
+
+const SavedExperiments = ({ library, setLibrary, currentInputs, onOpen }: SavedExperimentsProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const [query, setQuery] = useState('');
+    const [selected, setSelected] = useState<string[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [importMessage, setImportMessage] = useState('');
+    const [errors, setErrors] = useState<string[]>([]);
+
+    const visible = searchSavedExperiments(library, query);
+    const compared = useMemo(() => library.filter(entry => selected.includes(entry.id)), [library, selected]);
+    const comparison = useMemo(() => (compared.length >= 2 ? compareSavedExperiments(compared) : null), [compared]);
+
+    const update = (id: string, changes: Partial<SavedDetails> & { inputs?: Record<string, string> }) =>
+        setLibrary(prev => prev.map(entry => (entry.id === id ? updateSavedExperiment(entry, changes) : entry)));
+
+    const handleSave = () => {
+        const entry = createSavedExperiment(newName, currentInputs());
+        setLibrary(prev => [...prev, entry]);
+        setNewName('');
+        setEditingId(entry.id);
+    };
+
+    const handleDelete = (entry: SavedExperiment) => {
+        if (!window.confirm(`Delete "${entry.name}"?`)) return;
+        setLibrary(prev => prev.filter(other => other.id !== entry.id));
+        setSelected(prev => prev.filter(id => id !== entry.id));
+    };
+
+    // Entries saved before a setting existed get its default; broken entries are reported instead of opened
+    const handleOpen = (entry: SavedExperiment) => {
+        const parsed = parseShareInputs(entry.inputs);
+        if (parsed.ok) {
+            setErrors([]);
+            onOpen(parsed.value);
+        } else {
+            setErrors(parsed.issues.map(issue => `${entry.name}: ${issue.field ? `${issue.field}: ` : ''}${issue.message}`));
+        }
+    };
+
+    const toggleSelected = (id: string) => setSelected(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]));
+
+    const handleExport = () => downloadFile(`experiment-library-${new Date().toISOString().slice(0, 10)}.json`, exportLibrary(library), 'application/json');
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(text => {
+            const { experiments, issues } = parseLibrary(text);
+            setErrors(issues.map(issue => (issue.field ? `${issue.field}: ${issue.message}` : issue.message)));
+            setImportMessage(experiments.length > 0 ? `Imported ${experiments.length} experiment${experiments.length > 1 ? 's' : ''}.` : '');
+            if (experiments.length > 0) setLibrary(prev => mergeLibrary(prev, experiments));
+        }).catch(err => setErrors([`Could not read file: ${err}`]));
+        e.target.value = '';
+    };
+
+    return (
+        <div className={`${styles.card} ${styles.libraryCard}`}>
+            <div className={styles.cardHeader}>
+                <h2>Saved Experiments ({library.length})</h2>
+                <button className={styles.removeButton} onClick={() => setIsOpen(!isOpen)}>{isOpen ? 'Hide' : 'Show'}</button>
+            </div>
+            {isOpen && (
+                <>
+                    <div className={styles.libraryToolbar}>
+                        <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Name, e.g. Checkout CTA test" aria-label="Name for the saved experiment" />
+                        <button className={styles.addVariantButton} onClick={handleSave}>Save current inputs</button>
+                    </div>
+                    <div className={styles.libraryToolbar}>
+                        <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search names, hypotheses and notes" aria-label="Search saved experiments" />
+                        <button className={styles.removeButton} onClick={handleExport} disabled={library.length === 0}>Export JSON</button>
+                        <label className={styles.fileLabel}>Import JSON<input type="file" accept=".json,application/json" onChange={handleImport} /></label>
+                    </div>
+                    {importMessage && <p className={styles.helpText}>{importMessage}</p>}
+                    {errors.length > 0 && (
+                        <ul className={styles.errorList}>
+                            {errors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+
+                    {library.length === 0 && <p className={styles.helpText}>Nothing saved yet. Saving stores the inputs of the current mode under a name.</p>}
+                    {library.length > 0 && visible.length === 0 && <p className={styles.helpText}>No saved experiments match the search.</p>}
+                    <ul className={styles.libraryList}>
+                        {visible.map(entry => (
+                            <li key={entry.id} className={styles.libraryItem}>
+                                <div className={styles.libraryRow}>
+                                    <label className={styles.libraryName}>
+                                        <input type="checkbox" checked={selected.includes(entry.id)} onChange={() => toggleSelected(entry.id)} aria-label={`Compare ${entry.name}`} />
+                                        <strong>{entry.name}</strong>
+                                        <span className={styles.libraryMeta}>{MODE_LABELS[savedMode(entry)]}{formatDates(entry) && ` · ${formatDates(entry)}`}</span>
+                                    </label>
+                                    <div className={styles.libraryActions}>
+                                        <button className={styles.removeButton} onClick={() => handleOpen(entry)}>Open</button>
+                                        <button className={styles.removeButton} onClick={() => setEditingId(editingId === entry.id ? null : entry.id)}>{editingId === entry.id ? 'Done' : 'Edit'}</button>
+                                        <button className={styles.removeButton} onClick={() => setLibrary(prev => [...prev, duplicateSavedExperiment(entry, prev)])}>Duplicate</button>
+                                        <button className={styles.removeButton} onClick={() => handleDelete(entry)}>Delete</button>
+                                    </div>
+                                </div>
+                                {editingId === entry.id && (
+                                    <div className={styles.libraryEditor}>
+                                        <div className={styles.inputGroup}>
+                                            <label htmlFor={`savedName-${entry.id}`}>Name</label>
+                                            <input type="text" id={`savedName-${entry.id}`} value={entry.name} onChange={(e) => update(entry.id, { name: e.target.value })} />
+                                        </div>
+                                        <div className={styles.grid}>
+                                            <div className={styles.inputGroup}>
+                                                <label htmlFor={`savedStart-${entry.id}`}>Start date</label>
+                                                <input type="date" id={`savedStart-${entry.id}`} value={entry.startDate} onChange={(e) => update(entry.id, { startDate: e.target.value })} />
+                                            </div>
+                                            <div className={styles.inputGroup}>
+                                                <label htmlFor={`savedEnd-${entry.id}`}>End date</label>
+                                                <input type="date" id={`savedEnd-${entry.id}`} value={entry.endDate} onChange={(e) => update(entry.id, { endDate: e.target.value })} />
+                                            </div>
+                                        </div>
+                                        <div className={styles.inputGroup}>
+                                            <label htmlFor={`savedHypothesis-${entry.id}`}>Hypothesis</label>
+                                            <textarea id={`savedHypothesis-${entry.id}`} value={entry.hypothesis} onChange={(e) => update(entry.id, { hypothesis: e.target.value })} rows={2} placeholder="Because ..., we expect ... to increase ..." className={styles.textArea} />
+                                        </div>
+                                        <div className={styles.inputGroup}>
+                                            <label htmlFor={`savedNotes-${entry.id}`}>Notes</label>
+                                            <textarea id={`savedNotes-${entry.id}`} value={entry.notes} onChange={(e) => update(entry.id, { notes: e.target.value })} rows={3} className={styles.textArea} />
+                                        </div>
+                                        <button className={styles.removeButton} onClick={() => update(entry.id, { inputs: currentInputs() })}>Replace inputs with the current calculator</button>
+                                        <p className={styles.helpText}>Last changed {new Date(entry.updatedAt).toLocaleString()}.</p>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    {selected.length === 1 && <p className={styles.helpText}>Select at least one more experiment to compare.</p>}
+                    {comparison && (
+                        <div className={styles.libraryCompare}>
+                            <h3>Comparison</h3>
+                            <table className={styles.preTestTable}>
+                                <thead>
+                                    <tr>
+                                        <th></th>
+                                        {compared.map(entry => <th key={entry.id}>{entry.name}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    <tr>
+                                        <td>Type</td>
+                                        {compared.map(entry => <td key={entry.id}>{MODE_LABELS[savedMode(entry)]}</td>)}
+                                    </tr>
+                                    <tr>
+                                        <td>Dates</td>
+                                        {compared.map(entry => <td key={entry.id}>{formatDates(entry) || '—'}</td>)}
+                                    </tr>
+                                    <tr>
+                                        <td>Hypothesis</td>
+                                        {compared.map(entry => <td key={entry.id}>{entry.hypothesis || '—'}</td>)}
+                                    </tr>
+                                    {comparison.analyzable.some(ok => !ok) && (
+                                        <tr>
+                                            <td>Results</td>
+                                            {comparison.analyzable.map((ok, i) => <td key={compared[i].id}>{ok ? '' : 'Cannot be analyzed'}</td>)}
+                                        </tr>
+                                    )}
+                                    {comparison.rows.map(row => (
+                                        <tr key={row.label}>
+                                            <td>{row.label}</td>
+                                            {row.values.map((value, i) => <td key={compared[i].id}>{formatMetric(value, row.format)}</td>)}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
         </div>
     );
 };
@@ -310,17 +1807,36 @@ const PreTestAnalysis = ({ weeklyTraffic, setWeeklyTraffic, weeklyConversions, s
 // --- MAIN PAGE COMPONENT ---
 
 const CalculatorPage = () => {
-    type Mode = 'test-analysis' | 'pre-test-analysis';
+    type Mode = 'test-analysis' | 'pre-test-analysis' | 'bayesian-analysis' | 'continuous-analysis';
     const searchParams = useSearchParams();
+    const router = useRouter();
+    const pathname = usePathname();
 
     const [mode, setMode] = useLocalStorage<Mode>('calculator_mode', 'test-analysis');
     
     // State for Test Analysis
     const [visitorsA, setVisitorsA] = useLocalStorage<number | string>('testAnalysis_visitorsA', '');
     const [conversionsA, setConversionsA] = useLocalStorage<number | string>('testAnalysis_conversionsA', '');
-    const [visitorsB, setVisitorsB] = useLocalStorage<number | string>('testAnalysis_visitorsB', '');
-    const [conversionsB, setConversionsB] = useLocalStorage<number | string>('testAnalysis_conversionsB', '');
+    const [allocationA, setAllocationA] = useLocalStorage<number | string>('testAnalysis_allocationA', '');
+    const [variants, setVariants] = useLocalStorage<Variant[]>('testAnalysis_variants', [{ visitors: '', conversions: '' }]);
+    const [correction, setCorrection] = useLocalStorage<CorrectionMethod>('testAnalysis_correction', 'holm');
+    const [testConfidenceLevel, setTestConfidenceLevel] = useLocalStorage<number | string>('testAnalysis_confidenceLevel', 95);
+    const [intervalMethod, setIntervalMethod] = useLocalStorage<IntervalMethod>('testAnalysis_intervalMethod', 'wilson');
+    const [testMethod, setTestMethod] = useLocalStorage<TestMethodChoice>('testAnalysis_testMethod', 'z-test');
+    const [testHypothesis, setTestHypothesis] = useLocalStorage<Hypothesis>('testAnalysis_hypothesis', 'two-sided');
+    const [testMargin, setTestMargin] = useLocalStorage<number | string>('testAnalysis_margin', 1);
+    const [analysisType, setAnalysisType] = useLocalStorage<AnalysisType>('testAnalysis_analysisType', 'fixed-horizon');
+    const [spending, setSpending] = useLocalStorage<SpendingFunction>('testAnalysis_spending', 'obrien-fleming');
+    const [plannedLooks, setPlannedLooks] = useLocalStorage<number | string>('testAnalysis_plannedLooks', 5);
+    const [currentLook, setCurrentLook] = useLocalStorage<number | string>('testAnalysis_currentLook', 1);
+    const [dailyData, setDailyData] = useLocalStorage<string>('testAnalysis_dailyData', '');
+    const [segmentData, setSegmentData] = useLocalStorage<string>('testAnalysis_segmentData', '');
     const [testDuration, setTestDuration] = useLocalStorage<number | string>('testAnalysis_testDuration', '');
+    const [averageOrderValue, setAverageOrderValue] = useLocalStorage<number | string>('testAnalysis_averageOrderValue', '');
+    const [monthlyTraffic, setMonthlyTraffic] = useLocalStorage<number | string>('testAnalysis_monthlyTraffic', '');
+    const [rolloutMonths, setRolloutMonths] = useLocalStorage<number | string>('testAnalysis_rolloutMonths', 12);
+    const [testCorrelation, setTestCorrelation] = useLocalStorage<number | string>('testAnalysis_covariateCorrelation', '');
+    const [cupedData, setCupedData] = useLocalStorage<string>('testAnalysis_cupedData', '');
 
 
     // State for Pre-Test Analysis
@@ -328,49 +1844,237 @@ const CalculatorPage = () => {
     const [weeklyConversions, setWeeklyConversions] = useLocalStorage<number | string>('preTestAnalysis_weeklyConversions', '');
     const [confidence, setConfidence] = useLocalStorage<number | string>('preTestAnalysis_confidence', 95);
     const [power, setPower] = useLocalStorage<number | string>('preTestAnalysis_power', 80);
+    const [metricType, setMetricType] = useLocalStorage<MetricType>('preTestAnalysis_metricType', 'conversion');
+    const [baselineMean, setBaselineMean] = useLocalStorage<number | string>('preTestAnalysis_baselineMean', '');
+    const [baselineSd, setBaselineSd] = useLocalStorage<number | string>('preTestAnalysis_baselineSd', '');
+    const [preTestHypothesis, setPreTestHypothesis] = useLocalStorage<Hypothesis>('preTestAnalysis_hypothesis', 'two-sided');
+    const [preTestMargin, setPreTestMargin] = useLocalStorage<number | string>('preTestAnalysis_margin', 1);
+    const [solveFor, setSolveFor] = useLocalStorage<SolveFor>('preTestAnalysis_solveFor', 'mde');
+    const [arms, setArms] = useLocalStorage<number | string>('preTestAnalysis_arms', 2);
+    const [preTestAllocation, setPreTestAllocation] = useLocalStorage<string>('preTestAnalysis_allocation', '');
+    const [exposure, setExposure] = useLocalStorage<number | string>('preTestAnalysis_exposure', 100);
+    const [minWeeks, setMinWeeks] = useLocalStorage<number | string>('preTestAnalysis_minWeeks', 1);
+    const [maxWeeks, setMaxWeeks] = useLocalStorage<number | string>('preTestAnalysis_maxWeeks', 6);
+    const [mdeCeiling, setMdeCeiling] = useLocalStorage<number | string>('preTestAnalysis_mdeCeiling', 500);
+    const [targetMde, setTargetMde] = useLocalStorage<number | string>('preTestAnalysis_targetMde', 5);
+    const [powerCurveWeeks, setPowerCurveWeeks] = useLocalStorage<number | string>('preTestAnalysis_powerCurveWeeks', 4);
+    const [preTestCorrelation, setPreTestCorrelation] = useLocalStorage<number | string>('preTestAnalysis_covariateCorrelation', '');
+
+    // State for Bayesian Analysis
+    const [bayesVisitorsA, setBayesVisitorsA] = useLocalStorage<number | string>('bayesianAnalysis_visitorsA', '');
+    const [bayesConversionsA, setBayesConversionsA] = useLocalStorage<number | string>('bayesianAnalysis_conversionsA', '');
+    const [bayesVisitorsB, setBayesVisitorsB] = useLocalStorage<number | string>('bayesianAnalysis_visitorsB', '');
+    const [bayesConversionsB, setBayesConversionsB] = useLocalStorage<number | string>('bayesianAnalysis_conversionsB', '');
+    const [priorAlpha, setPriorAlpha] = useLocalStorage<number | string>('bayesianAnalysis_priorAlpha', 1);
+    const [priorBeta, setPriorBeta] = useLocalStorage<number | string>('bayesianAnalysis_priorBeta', 1);
 
+    // State for Continuous Metric Analysis
+    const [continuousInputMethod, setContinuousInputMethod] = useLocalStorage<ContinuousInputMethod>('continuousAnalysis_inputMethod', 'summary');
+    const [meanA, setMeanA] = useLocalStorage<number | string>('continuousAnalysis_meanA', '');
+    const [sdA, setSdA] = useLocalStorage<number | string>('continuousAnalysis_sdA', '');
+    const [nA, setNA] = useLocalStorage<number | string>('continuousAnalysis_nA', '');
+    const [meanB, setMeanB] = useLocalStorage<number | string>('continuousAnalysis_meanB', '');
+    const [sdB, setSdB] = useLocalStorage<number | string>('continuousAnalysis_sdB', '');
+    const [nB, setNB] = useLocalStorage<number | string>('continuousAnalysis_nB', '');
+    const [rawA, setRawA] = useLocalStorage<string>('continuousAnalysis_rawA', '');
+    const [rawB, setRawB] = useLocalStorage<string>('continuousAnalysis_rawB', '');
+    const [continuousConfidenceLevel, setContinuousConfidenceLevel] = useLocalStorage<number | string>('continuousAnalysis_confidenceLevel', 95);
+    const [continuousHypothesis, setContinuousHypothesis] = useLocalStorage<Hypothesis>('continuousAnalysis_hypothesis', 'two-sided');
+    const [continuousMargin, setContinuousMargin] = useLocalStorage<number | string>('continuousAnalysis_margin', 1);
 
+
+    const [library, setLibrary] = useLocalStorage<SavedExperiment[]>('savedExperiments', []);
+
+    const [loadCount, setLoadCount] = useState(0);
     const [shareUrl, setShareUrl] = useState('');
+    const [shareOmissions, setShareOmissions] = useState<string[]>([]);
     const [showShareUrl, setShowShareUrl] = useState(false);
     const [copySuccess, setCopySuccess] = useState('');
 
-    useEffect(() => {
-        const params = new URLSearchParams(searchParams.toString());
-        const modeParam = params.get('mode');
-
-        if (modeParam === 'test-analysis' || modeParam === 'pre-test-analysis') {
-            setMode(modeParam);
-            if (modeParam === 'test-analysis') {
-                setVisitorsA(params.get('visitorsA') || '');
-                setConversionsA(params.get('conversionsA') || '');
-                setVisitorsB(params.get('visitorsB') || '');
-                setConversionsB(params.get('conversionsB') || '');
-                setTestDuration(params.get('testDuration') || '');
-            } else if (modeParam === 'pre-test-analysis') {
-                setWeeklyTraffic(params.get('weeklyTraffic') || '');
-                setWeeklyConversions(params.get('weeklyConversions') || '');
-                setConfidence(params.get('confidence') || 95);
-                setPower(params.get('power') || 80);
+    // Fills the calculator from validated share link or saved experiment inputs
+    const applyInputs = ({ mode: sharedMode, inputs }: SharedState) => {
+        setMode(sharedMode);
+        if (sharedMode === 'test-analysis') {
+            setVisitorsA(inputs.visitorsA);
+            setConversionsA(inputs.conversionsA);
+            setAllocationA(inputs.allocationA);
+            const sharedVariants: Variant[] = [];
+            for (let i = 0; i < MAX_VARIANTS && inputs[`visitors${variantLabel(i)}`] !== undefined; i++) {
+                const label = variantLabel(i);
+                sharedVariants.push({ visitors: inputs[`visitors${label}`], conversions: inputs[`conversions${label}`], allocation: inputs[`allocation${label}`] });
             }
+            setVariants(sharedVariants);
+            setCorrection(inputs.correction as CorrectionMethod);
+            setTestConfidenceLevel(inputs.confidenceLevel);
+            setIntervalMethod(inputs.intervalMethod as IntervalMethod);
+            setTestMethod(inputs.testMethod as TestMethodChoice);
+            setTestHypothesis(inputs.hypothesis as Hypothesis);
+            setTestMargin(inputs.margin);
+            setAnalysisType(inputs.analysisType as AnalysisType);
+            setSpending(inputs.spending as SpendingFunction);
+            setPlannedLooks(inputs.plannedLooks);
+            setCurrentLook(inputs.currentLook);
+            setTestDuration(inputs.testDuration);
+            setAverageOrderValue(inputs.averageOrderValue);
+            setMonthlyTraffic(inputs.monthlyTraffic);
+            setRolloutMonths(inputs.rolloutMonths);
+            setTestCorrelation(inputs.covariateCorrelation);
+            setDailyData(inputs.dailyData);
+            setSegmentData(inputs.segmentData);
+            setCupedData(inputs.cupedData);
+        } else if (sharedMode === 'pre-test-analysis') {
+            setMetricType(inputs.metricType as MetricType);
+            setWeeklyTraffic(inputs.weeklyTraffic);
+            setWeeklyConversions(inputs.weeklyConversions);
+            setBaselineMean(inputs.baselineMean);
+            setBaselineSd(inputs.baselineSd);
+            setConfidence(inputs.confidence);
+            setPower(inputs.power);
+            setPreTestHypothesis(inputs.hypothesis as Hypothesis);
+            setPreTestMargin(inputs.margin);
+            setSolveFor(inputs.solveFor as SolveFor);
+            setArms(inputs.arms);
+            setPreTestAllocation(inputs.allocation);
+            setExposure(inputs.exposure);
+            setMinWeeks(inputs.minWeeks);
+            setMaxWeeks(inputs.maxWeeks);
+            setMdeCeiling(inputs.mdeCeiling);
+            setTargetMde(inputs.targetMde);
+            setPowerCurveWeeks(inputs.powerCurveWeeks);
+            setPreTestCorrelation(inputs.covariateCorrelation);
+        } else if (sharedMode === 'bayesian-analysis') {
+            setBayesVisitorsA(inputs.visitorsA);
+            setBayesConversionsA(inputs.conversionsA);
+            setBayesVisitorsB(inputs.visitorsB);
+            setBayesConversionsB(inputs.conversionsB);
+            setPriorAlpha(inputs.priorAlpha);
+            setPriorBeta(inputs.priorBeta);
+        } else {
+            // Links carry summary statistics in place of raw values (see LINK_OMITTED_FIELDS); saved experiments keep both
+            setContinuousInputMethod(inputs.inputMethod as ContinuousInputMethod);
+            setRawA(inputs.rawA);
+            setRawB(inputs.rawB);
+            setMeanA(inputs.meanA);
+            setSdA(inputs.sdA);
+            setNA(inputs.nA);
+            setMeanB(inputs.meanB);
+            setSdB(inputs.sdB);
+            setNB(inputs.nB);
+            setContinuousConfidenceLevel(inputs.confidenceLevel);
+            setContinuousHypothesis(inputs.hypothesis as Hypothesis);
+            setContinuousMargin(inputs.margin);
         }
-    }, [searchParams, setMode, setVisitorsA, setConversionsA, setVisitorsB, setConversionsB, setWeeklyTraffic, setWeeklyConversions, setConfidence, setPower]);
+        // Remount the mode so importers show the loaded text instead of their old drafts
+        setLoadCount(count => count + 1);
+    };
 
-    const handleShare = () => {
-        const params = new URLSearchParams();
-        params.set('mode', mode);
-        if (mode === 'test-analysis') {
-            params.set('visitorsA', String(visitorsA));
-            params.set('conversionsA', String(conversionsA));
-            params.set('visitorsB', String(visitorsB));
-            params.set('conversionsB', String(conversionsB));
-            params.set('testDuration', String(testDuration));
-        } else {
-            params.set('weeklyTraffic', String(weeklyTraffic));
-            params.set('weeklyConversions', String(weeklyConversions));
-            params.set('confidence', String(confidence));
-            params.set('power', String(power));
+    // Every setting of a mode as share link inputs
+    const shareInputs = (forMode: Mode): ShareInputs => {
+        if (forMode === 'test-analysis') {
+            const arms: ShareInputs = {};
+            variants.forEach((variant, i) => {
+                const label = variantLabel(i);
+                arms[`visitors${label}`] = String(variant.visitors);
+                arms[`conversions${label}`] = String(variant.conversions);
+                arms[`allocation${label}`] = String(variant.allocation ?? '');
+            });
+            return {
+                mode: forMode,
+                visitorsA: String(visitorsA),
+                conversionsA: String(conversionsA),
+                allocationA: String(allocationA),
+                ...arms,
+                correction,
+                confidenceLevel: String(testConfidenceLevel),
+                intervalMethod,
+                testMethod,
+                hypothesis: testHypothesis,
+                margin: String(testMargin),
+                analysisType,
+                spending,
+                plannedLooks: String(plannedLooks),
+                currentLook: String(currentLook),
+                testDuration: String(testDuration),
+                averageOrderValue: String(averageOrderValue),
+                monthlyTraffic: String(monthlyTraffic),
+                rolloutMonths: String(rolloutMonths),
+                covariateCorrelation: String(testCorrelation),
+                dailyData,
+                segmentData,
+                cupedData,
+            };
+        }
+        if (forMode === 'pre-test-analysis') {
+            return {
+                mode: forMode,
+                metricType,
+                weeklyTraffic: String(weeklyTraffic),
+                weeklyConversions: String(weeklyConversions),
+                baselineMean: String(baselineMean),
+                baselineSd: String(baselineSd),
+                confidence: String(confidence),
+                power: String(power),
+                hypothesis: preTestHypothesis,
+                margin: String(preTestMargin),
+                solveFor,
+                arms: String(arms),
+                allocation: preTestAllocation,
+                exposure: String(exposure),
+                minWeeks: String(minWeeks),
+                maxWeeks: String(maxWeeks),
+                mdeCeiling: String(mdeCeiling),
+                targetMde: String(targetMde),
+                powerCurveWeeks: String(powerCurveWeeks),
+                covariateCorrelation: String(preTestCorrelation),
+            };
         }
-        const fullUrl = `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+        if (forMode === 'continuous-analysis') {
+            const summaryA = continuousInputMethod === 'raw' ? summarizeValues(parseRawValues(rawA).values) : { mean: meanA, sd: sdA, n: nA };
+            const summaryB = continuousInputMethod === 'raw' ? summarizeValues(parseRawValues(rawB).values) : { mean: meanB, sd: sdB, n: nB };
+            return {
+                mode: forMode,
+                inputMethod: continuousInputMethod,
+                rawA,
+                rawB,
+                meanA: String(summaryA?.mean ?? ''),
+                sdA: String(summaryA?.sd ?? ''),
+                nA: String(summaryA?.n ?? ''),
+                meanB: String(summaryB?.mean ?? ''),
+                sdB: String(summaryB?.sd ?? ''),
+                nB: String(summaryB?.n ?? ''),
+                confidenceLevel: String(continuousConfidenceLevel),
+                hypothesis: continuousHypothesis,
+                margin: String(continuousMargin),
+            };
+        }
+        return {
+            mode: forMode,
+            visitorsA: String(bayesVisitorsA),
+            conversionsA: String(bayesConversionsA),
+            visitorsB: String(bayesVisitorsB),
+            conversionsB: String(bayesConversionsB),
+            priorAlpha: String(priorAlpha),
+            priorBeta: String(priorBeta),
+        };
+    };
+
+    // A shared link waits for the user to load it or keep their own inputs; either way it is then removed from the URL
+    const sharedLink = useMemo(() => readShareLink(new URLSearchParams(searchParams.toString())), [searchParams]);
+    const dismissSharedLink = () => router.replace(pathname, { scroll: false });
+
+    // The same field checks run on the open mode and on shared inputs before they are loaded
+    const fieldMessages = checkInputs({ mode, inputs: shareInputs(mode) });
+    const sharedMessages = sharedLink?.ok ? checkInputs(sharedLink.value) : [];
+
+    const loadSharedLink = () => {
+        if (sharedLink?.ok) applyInputs(sharedLink.value);
+        dismissSharedLink();
+    };
+
+    const handleShare = () => {
+        const inputs = shareInputs(mode);
+        const fullUrl = `${window.location.origin}${window.location.pathname}?s=${encodeSharePayload(linkInputs(inputs))}`;
+        setShareOmissions(LINK_OMITTED_FIELDS.filter(field => (inputs[field] ?? '') !== '').map(field => LINK_OMISSION_LABELS[field]));
         setShareUrl(fullUrl);
         setShowShareUrl(true);
     };
@@ -392,18 +2096,57 @@ const CalculatorPage = () => {
 
     return (
         <div className={styles.container}>
+            {sharedLink?.ok && (
+                <div className={styles.shareNotice} role="alertdialog" aria-labelledby="sharedLinkTitle">
+                    <p id="sharedLinkTitle"><strong>This link contains shared {MODE_LABELS[sharedLink.value.mode]} inputs.</strong></p>
+                    <p>Loading them replaces your current {MODE_LABELS[sharedLink.value.mode]} inputs in this browser. Save them to Saved Experiments first if you want to keep them.</p>
+                    {sharedMessages.length > 0 && (
+                        <>
+                            <p>{hasErrors(sharedMessages) ? 'Some shared inputs need fixing before results can be shown:' : 'Some shared inputs give fragile results:'}</p>
+                            <ul>
+                                {sharedMessages.map(message => <li key={`${message.field}-${message.message}`} className={message.severity === 'error' ? styles.fieldError : styles.fieldWarning}>{message.field}: {message.message}</li>)}
+                            </ul>
+                        </>
+                    )}
+                    <div className={styles.importActions}>
+                        <button className={styles.addVariantButton} onClick={loadSharedLink}>Load shared inputs</button>
+                        <button className={styles.removeButton} onClick={dismissSharedLink}>Keep my inputs</button>
+                    </div>
+                </div>
+            )}
+            {sharedLink && !sharedLink.ok && (
+                <div className={styles.warningBox} role="alert">
+                    <strong>This share link could not be opened.</strong>
+                    <ul>
+                        {sharedLink.issues.map(issue => <li key={`${issue.field}-${issue.message}`}>{issue.field && issue.field !== 's' && issue.field !== 'v' ? `${issue.field}: ` : ''}{issue.message}</li>)}
+                    </ul>
+                    <button className={styles.removeButton} onClick={dismissSharedLink}>Dismiss</button>
+                </div>
+            )}
             <div className={styles.toggleContainer}>
                 <button className={`${styles.toggleButton} ${mode === 'test-analysis' ? styles.active : ''}`} onClick={() => setMode('test-analysis')}>Test Analysis</button>
                 <button className={`${styles.toggleButton} ${mode === 'pre-test-analysis' ? styles.active : ''}`} onClick={() => setMode('pre-test-analysis')}>Pre-test Analysis</button>
+                <button className={`${styles.toggleButton} ${mode === 'bayesian-analysis' ? styles.active : ''}`} onClick={() => setMode('bayesian-analysis')}>Bayesian Analysis</button>
+                <button className={`${styles.toggleButton} ${mode === 'continuous-analysis' ? styles.active : ''}`} onClick={() => setMode('continuous-analysis')}>Revenue / AOV</button>
             </div>
             <h1 className={styles.title}>
-                {mode === 'test-analysis' ? 'A/B Test Significance Calculator' : 'A/B Test Duration & MDE Calculator'}
+                {mode === 'test-analysis' && 'A/B Test Significance Calculator'}
+                {mode === 'pre-test-analysis' && 'A/B Test Duration & MDE Calculator'}
+                {mode === 'bayesian-analysis' && 'Bayesian A/B Test Calculator'}
+                {mode === 'continuous-analysis' && 'Revenue & AOV Test Calculator'}
             </h1>
 
-            {mode === 'test-analysis' ? (
-                <TestAnalysis visitorsA={visitorsA} setVisitorsA={setVisitorsA} conversionsA={conversionsA} setConversionsA={setConversionsA} visitorsB={visitorsB} setVisitorsB={setVisitorsB} conversionsB={conversionsB} setConversionsB={setConversionsB} testDuration={testDuration} setTestDuration={setTestDuration}/>
-            ) : (
-                <PreTestAnalysis weeklyTraffic={weeklyTraffic} setWeeklyTraffic={setWeeklyTraffic} weeklyConversions={weeklyConversions} setWeeklyConversions={setWeeklyConversions} confidence={confidence} setConfidence={setConfidence} power={power} setPower={setPower} />
+            {mode === 'test-analysis' && (
+                <TestAnalysis key={loadCount} visitorsA={visitorsA} setVisitorsA={setVisitorsA} conversionsA={conversionsA} setConversionsA={setConversionsA} allocationA={allocationA} setAllocationA={setAllocationA} variants={variants} setVariants={setVariants} correction={correction} setCorrection={setCorrection} confidenceLevel={testConfidenceLevel} setConfidenceLevel={setTestConfidenceLevel} intervalMethod={intervalMethod} setIntervalMethod={setIntervalMethod} testMethod={testMethod} setTestMethod={setTestMethod} hypothesis={testHypothesis} setHypothesis={setTestHypothesis} margin={testMargin} setMargin={setTestMargin} analysisType={analysisType} setAnalysisType={setAnalysisType} spending={spending} setSpending={setSpending} plannedLooks={plannedLooks} setPlannedLooks={setPlannedLooks} currentLook={currentLook} setCurrentLook={setCurrentLook} dailyData={dailyData} setDailyData={setDailyData} segmentData={segmentData} setSegmentData={setSegmentData} testDuration={testDuration} setTestDuration={setTestDuration} averageOrderValue={averageOrderValue} setAverageOrderValue={setAverageOrderValue} monthlyTraffic={monthlyTraffic} setMonthlyTraffic={setMonthlyTraffic} rolloutMonths={rolloutMonths} setRolloutMonths={setRolloutMonths} covariateCorrelation={testCorrelation} setCovariateCorrelation={setTestCorrelation} cupedData={cupedData} setCupedData={setCupedData} messages={fieldMessages} />
+            )}
+            {mode === 'pre-test-analysis' && (
+                <PreTestAnalysis key={loadCount} metricType={metricType} setMetricType={setMetricType} weeklyTraffic={weeklyTraffic} setWeeklyTraffic={setWeeklyTraffic} weeklyConversions={weeklyConversions} setWeeklyConversions={setWeeklyConversions} baselineMean={baselineMean} setBaselineMean={setBaselineMean} baselineSd={baselineSd} setBaselineSd={setBaselineSd} confidence={confidence} setConfidence={setConfidence} power={power} setPower={setPower} hypothesis={preTestHypothesis} setHypothesis={setPreTestHypothesis} margin={preTestMargin} setMargin={setPreTestMargin} solveFor={solveFor} setSolveFor={setSolveFor} arms={arms} setArms={setArms} allocation={preTestAllocation} setAllocation={setPreTestAllocation} exposure={exposure} setExposure={setExposure} minWeeks={minWeeks} setMinWeeks={setMinWeeks} maxWeeks={maxWeeks} setMaxWeeks={setMaxWeeks} mdeCeiling={mdeCeiling} setMdeCeiling={setMdeCeiling} targetMde={targetMde} setTargetMde={setTargetMde} powerCurveWeeks={powerCurveWeeks} setPowerCurveWeeks={setPowerCurveWeeks} covariateCorrelation={preTestCorrelation} setCovariateCorrelation={setPreTestCorrelation} messages={fieldMessages} />
+            )}
+            {mode === 'continuous-analysis' && (
+                <ContinuousAnalysis key={loadCount} inputMethod={continuousInputMethod} setInputMethod={setContinuousInputMethod} meanA={meanA} setMeanA={setMeanA} sdA={sdA} setSdA={setSdA} nA={nA} setNA={setNA} meanB={meanB} setMeanB={setMeanB} sdB={sdB} setSdB={setSdB} nB={nB} setNB={setNB} rawA={rawA} setRawA={setRawA} rawB={rawB} setRawB={setRawB} confidenceLevel={continuousConfidenceLevel} setConfidenceLevel={setContinuousConfidenceLevel} hypothesis={continuousHypothesis} setHypothesis={setContinuousHypothesis} margin={continuousMargin} setMargin={setContinuousMargin} messages={fieldMessages} />
+            )}
+            {mode === 'bayesian-analysis' && (
+                <BayesianAnalysis key={loadCount} visitorsA={bayesVisitorsA} setVisitorsA={setBayesVisitorsA} conversionsA={bayesConversionsA} setConversionsA={setBayesConversionsA} visitorsB={bayesVisitorsB} setVisitorsB={setBayesVisitorsB} conversionsB={bayesConversionsB} setConversionsB={setBayesConversionsB} priorAlpha={priorAlpha} setPriorAlpha={setPriorAlpha} priorBeta={priorBeta} setPriorBeta={setPriorBeta} messages={fieldMessages} />
             )}
 
             <div className={styles.shareContainer}>
@@ -416,7 +2159,12 @@ const CalculatorPage = () => {
                         </button>
                     </div>
                 )}
+                {showShareUrl && shareOmissions.length > 0 && (
+                    <p className={styles.helpText}>The link leaves out the {listItems([...new Set(shareOmissions)])}: pasted and imported data is too long for a link. Save the experiment and export the library to pass them on.</p>
+                )}
             </div>
+
+            <SavedExperiments library={library} setLibrary={setLibrary} currentInputs={() => shareInputs(mode)} onOpen={applyInputs} />
         </div>
     );
 };
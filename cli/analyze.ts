@@ -0,0 +1,69 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { analyzeExperiments, ExperimentError, parseExperimentsCsv, parseExperimentsJson } from '../lib/batch/experiments';
+import { formatResults, OUTPUT_FORMATS, OutputFormat } from '../lib/batch/output';
+
+// Batch analysis of finished experiments: npm run analyze -- <file.csv|file.json> [--format table|csv|json] [--output file]
+
+const USAGE = 'Usage: npm run analyze -- <experiments.csv|experiments.json> [--format table|csv|json] [--output <file>]';
+
+// Exit codes: 0 success, 1 invalid experiment data, 2 bad arguments or unreadable file
+const fail = (message: string, code: number): never => {
+    process.stderr.write(`${message}\n`);
+    process.exit(code);
+};
+
+const reportErrors = (errors: ExperimentError[]) => {
+    errors.forEach(({ id, issues }) => issues.forEach(({ field, message }) => {
+        const where = [id && `Experiment ${id}`, field].filter(Boolean).join(', ');
+        process.stderr.write(`${where ? `${where}: ` : ''}${message}\n`);
+    }));
+};
+
+const main = () => {
+    const args = process.argv.slice(2);
+    let input: string | undefined;
+    let format: OutputFormat = 'table';
+    let output: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--help' || arg === '-h') {
+            process.stdout.write(`${USAGE}\n`);
+            return;
+        }
+        if (arg === '--format' || arg === '-f') {
+            const value = args[++i];
+            if (!OUTPUT_FORMATS.includes(value as OutputFormat)) fail(`--format must be one of: ${OUTPUT_FORMATS.join(', ')}.`, 2);
+            format = value as OutputFormat;
+        } else if (arg === '--output' || arg === '-o') {
+            output = args[++i] ?? fail('--output needs a file name.', 2);
+        } else if (arg.startsWith('-') || input !== undefined) {
+            fail(`Unexpected argument: ${arg}\n${USAGE}`, 2);
+        } else {
+            input = arg;
+        }
+    }
+    if (input === undefined) return fail(USAGE, 2);
+
+    let text: string;
+    try {
+        text = readFileSync(input, 'utf8');
+    } catch {
+        return fail(`Cannot read ${input}.`, 2);
+    }
+
+    const parsed = extname(input).toLowerCase() === '.json' ? parseExperimentsJson(text) : parseExperimentsCsv(text);
+    const analyzed = analyzeExperiments(parsed.experiments);
+    const errors = [...parsed.errors, ...analyzed.errors];
+    if (errors.length > 0) {
+        reportErrors(errors);
+        return fail(`${errors.length} experiment${errors.length > 1 ? 's have' : ' has'} invalid inputs; no results were written.`, 1);
+    }
+
+    const result = formatResults(analyzed.rows, format);
+    if (output) writeFileSync(output, result);
+    else process.stdout.write(result);
+};
+
+main();
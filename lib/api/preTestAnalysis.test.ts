@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parsePreTestAnalysisRequest, runPreTestAnalysis } from './preTestAnalysis';
+
+const body = { weeklyTraffic: 7000, weeklyConversions: 700 };
+
+describe('parsePreTestAnalysisRequest', () => {
+    it('accepts the split as text or as weights', () => {
+        const asText = parsePreTestAnalysisRequest({ ...body, allocation: '90/10' });
+        const asWeights = parsePreTestAnalysisRequest({ ...body, allocation: [90, 10] });
+        expect(asText.ok && asText.value.allocation).toEqual([0.9, 0.1]);
+        expect(asWeights.ok && asWeights.value.allocation).toEqual([0.9, 0.1]);
+    });
+
+    it('reports invalid fields', () => {
+        const parsed = parsePreTestAnalysisRequest({ weeklyTraffic: 100, weeklyConversions: 200, arms: 3, allocation: '50/50', minWeeks: 4, maxWeeks: 2 });
+        expect(!parsed.ok && parsed.issues.map(issue => issue.field)).toEqual(['weeklyConversions', 'allocation', 'maxWeeks']);
+    });
+
+    it('requires the baseline mean and deviation for continuous metrics', () => {
+        const parsed = parsePreTestAnalysisRequest({ metricType: 'continuous', weeklyTraffic: 7000 });
+        expect(!parsed.ok && parsed.issues.map(issue => issue.field)).toEqual(['baselineMean', 'baselineSd']);
+    });
+});
+
+describe('runPreTestAnalysis', () => {
+    it('solves for duration', () => {
+        const parsed = parsePreTestAnalysisRequest({ ...body, solveFor: 'duration', targetMde: 20 });
+        if (!parsed.ok) throw new Error('expected a valid request');
+        expect(runPreTestAnalysis(parsed.value)?.requirement).toEqual({ requiredTotal: 7677, perArm: [3839, 3839], days: 8 });
+    });
+
+    it('tabulates the MDE for each week', () => {
+        const parsed = parsePreTestAnalysisRequest(body);
+        if (!parsed.ok) throw new Error('expected a valid request');
+        expect(runPreTestAnalysis(parsed.value)?.durationResults.map(row => row.weeks)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+});
@@ -0,0 +1,118 @@
+import {
+    DurationRow, Hypothesis, HYPOTHESES, MAX_PLANNING_WEEKS, MAX_VARIANTS, METRIC_TYPES, MetricType, parseAllocation, planTest, SampleRequirement, SOLVE_FOR,
+    SolveFor,
+} from '../stats';
+import { isObject, readChoice, readNumber, readOptionalNumber, Validated, ValidationIssue } from './validation';
+
+// Request handling for POST /api/pre-test-analysis. Units match the calculator page: percentages are 0-100.
+
+/** Body of POST /api/pre-test-analysis, with defaults filled in. */
+export type PreTestAnalysisRequest = {
+    metricType: MetricType;
+    weeklyTraffic: number;
+    weeklyConversions: number;
+    baselineMean: number;
+    baselineSd: number;
+    /** Percent, e.g. 95. */
+    confidence: number;
+    /** Percent, e.g. 80. */
+    power: number;
+    hypothesis: Hypothesis;
+    /** Percent relative. Only used for non-inferiority. */
+    margin: number;
+    solveFor: SolveFor;
+    arms: number;
+    /** Traffic share of each arm, control first, summing to 1. */
+    allocation: number[];
+    /** Percent of traffic in the experiment. */
+    exposure: number;
+    minWeeks: number;
+    maxWeeks: number;
+    /** Percent relative. */
+    mdeCeiling: number;
+    /** Percent relative. */
+    targetMde: number;
+    /** Correlation of the metric with a pre-period covariate, -1 to 1; adds the CUPED columns. */
+    covariateCorrelation: number | null;
+};
+
+export type PreTestAnalysisResponse = {
+    solveFor: SolveFor;
+    /** MDE (solveFor "mde") or power (solveFor "power") for each duration, as fractions; null when no MDE was found. */
+    durationResults: DurationRow[];
+    requirement: SampleRequirement | null;
+    /** Share of the variance CUPED removes; null without a covariate correlation. */
+    varianceReduction: number | null;
+};
+
+// Accepts a split as text ("90/10") like the page does, or as an array of weights.
+const readAllocation = (raw: unknown, arms: number, issues: ValidationIssue[]): number[] => {
+    if (!Number.isInteger(arms)) return [];
+    if (raw === undefined || raw === null) return parseAllocation('', arms) as number[];
+    const text = Array.isArray(raw) && raw.every(part => typeof part === 'number') ? raw.join('/') : raw;
+    const shares = typeof text === 'string' ? parseAllocation(text, arms) : null;
+    if (!shares) issues.push({ field: 'allocation', message: `Must give a positive share for each of the ${arms} arms, e.g. "50/50".` });
+    return shares ?? [];
+};
+
+export const parsePreTestAnalysisRequest = (body: unknown): Validated<PreTestAnalysisRequest> => {
+    if (!isObject(body)) return { ok: false, issues: [{ field: '', message: 'The request body must be a JSON object.' }] };
+    const issues: ValidationIssue[] = [];
+
+    const metricType = readChoice(body, 'metricType', 'metricType', issues, METRIC_TYPES, 'conversion');
+    const isContinuous = metricType === 'continuous';
+    const weeklyTraffic = readNumber(body, 'weeklyTraffic', 'weeklyTraffic', issues, { above: 0 });
+    const weeklyConversions = readNumber(body, 'weeklyConversions', 'weeklyConversions', issues, isContinuous ? { fallback: 0 } : { above: 0 });
+    if (!isContinuous && weeklyConversions >= weeklyTraffic) {
+        issues.push({ field: 'weeklyConversions', message: 'Must be less than weekly traffic.' });
+    }
+    const baselineMean = readNumber(body, 'baselineMean', 'baselineMean', issues, isContinuous ? { above: 0 } : { fallback: 0 });
+    const baselineSd = readNumber(body, 'baselineSd', 'baselineSd', issues, isContinuous ? { above: 0 } : { fallback: 0 });
+    const confidence = readNumber(body, 'confidence', 'confidence', issues, { fallback: 95, above: 0, below: 100 });
+    const power = readNumber(body, 'power', 'power', issues, { fallback: 80, above: 0, below: 100 });
+    const hypothesis = readChoice(body, 'hypothesis', 'hypothesis', issues, HYPOTHESES, 'two-sided');
+    const margin = readNumber(body, 'margin', 'margin', issues, hypothesis === 'non-inferiority' ? { fallback: 1, above: 0, below: 100 } : { fallback: 1 });
+    const solveFor = readChoice(body, 'solveFor', 'solveFor', issues, SOLVE_FOR, 'mde');
+    const arms = readNumber(body, 'arms', 'arms', issues, { fallback: 2, integer: true, min: 2, max: MAX_VARIANTS + 1 });
+    const allocation = readAllocation(body.allocation, arms, issues);
+    const exposure = readNumber(body, 'exposure', 'exposure', issues, { fallback: 100, above: 0, max: 100 });
+    const weekRule = { integer: true, min: 1, max: MAX_PLANNING_WEEKS };
+    const minWeeks = readNumber(body, 'minWeeks', 'minWeeks', issues, { ...weekRule, fallback: 1 });
+    const maxWeeks = readNumber(body, 'maxWeeks', 'maxWeeks', issues, { ...weekRule, fallback: 6 });
+    if (solveFor !== 'duration' && maxWeeks < minWeeks) issues.push({ field: 'maxWeeks', message: 'Must be at least minWeeks.' });
+    const mdeCeiling = readNumber(body, 'mdeCeiling', 'mdeCeiling', issues, { fallback: 500, above: 0 });
+    const targetMde = readNumber(body, 'targetMde', 'targetMde', issues, { fallback: 5, above: 0 });
+    const covariateCorrelation = readOptionalNumber(body, 'covariateCorrelation', 'covariateCorrelation', issues, { above: -1, below: 1 }) ?? null;
+
+    if (issues.length > 0) return { ok: false, issues };
+    return {
+        ok: true,
+        value: { metricType, weeklyTraffic, weeklyConversions, baselineMean, baselineSd, confidence, power, hypothesis, margin, solveFor, arms, allocation, exposure, minWeeks, maxWeeks, mdeCeiling, targetMde, covariateCorrelation },
+    };
+};
+
+/** Runs the same calculations as the Pre-test Analysis mode. Returns null when the inputs cannot be planned with. */
+export const runPreTestAnalysis = (request: PreTestAnalysisRequest): PreTestAnalysisResponse | null => {
+    const result = planTest({
+        metricType: request.metricType,
+        weeklyTraffic: request.weeklyTraffic,
+        weeklyConversions: request.weeklyConversions,
+        baselineMean: request.baselineMean,
+        baselineSd: request.baselineSd,
+        confidenceLevel: request.confidence / 100,
+        power: request.power / 100,
+        hypothesis: request.hypothesis,
+        margin: request.margin / 100,
+        arms: request.arms,
+        allocation: request.allocation,
+        exposure: request.exposure / 100,
+        mdeCeiling: request.mdeCeiling / 100,
+        solveFor: request.solveFor,
+        minWeeks: request.minWeeks,
+        maxWeeks: request.maxWeeks,
+        targetMde: request.targetMde / 100,
+        covariateCorrelation: request.covariateCorrelation ?? undefined,
+    });
+    if (!result) return null;
+    return { solveFor: result.solveFor, durationResults: result.durationResults, requirement: result.requirement, varianceReduction: result.varianceReduction };
+};
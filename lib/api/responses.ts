@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { Validated, ValidationIssue } from './validation';
+
+/** Error body returned with status 400, or 500 when the calculation itself fails. */
+export type ErrorResponse = { error: string; issues: ValidationIssue[] };
+
+/**
+ * A result as the API sends it. Numbers that are not finite, such as the uplift over a 0% control rate, cannot be
+ * written as JSON and are sent as null, so every number may be null.
+ */
+export type Serialized<T> = T extends number
+    ? number | null
+    : T extends readonly (infer U)[]
+      ? Serialized<U>[]
+      : T extends object
+        ? { [K in keyof T]: Serialized<T[K]> }
+        : T;
+
+const finiteOrNull = (value: unknown): unknown => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (Array.isArray(value)) return value.map(finiteOrNull);
+    if (value !== null && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, finiteOrNull(item)]));
+    return value;
+};
+
+/** Replaces every NaN and ±Infinity in a result with null. */
+export const serialize = <T>(result: T) => finiteOrNull(result) as Serialized<T>;
+
+export const badRequest = (error: string, issues: ValidationIssue[] = []) =>
+    NextResponse.json<ErrorResponse>({ error, issues }, { status: 400 });
+
+export const serverError = (error: string) =>
+    NextResponse.json<ErrorResponse>({ error, issues: [] }, { status: 500 });
+
+// Shared POST flow: read JSON, validate it, then run the calculation.
+export const handleCalculation = async <TRequest, TResponse>(
+    request: Request,
+    parse: (body: unknown) => Validated<TRequest>,
+    run: (input: TRequest) => TResponse | null,
+) => {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return badRequest('The request body is not valid JSON.');
+    }
+
+    const parsed = parse(body);
+    if (!parsed.ok) return badRequest('The request has invalid fields.', parsed.issues);
+
+    let result: TResponse | null;
+    try {
+        result = run(parsed.value);
+    } catch {
+        return serverError('The calculation failed for these inputs.');
+    }
+    if (!result) return badRequest('These inputs cannot be analyzed.');
+    return NextResponse.json(serialize(result));
+};
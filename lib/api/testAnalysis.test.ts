@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTest } from '../stats';
+import { handleCalculation } from './responses';
+import { parseTestAnalysisRequest, runTestAnalysis } from './testAnalysis';
+
+const body = {
+    control: { visitors: 1000, conversions: 100 },
+    variants: [{ visitors: 1000, conversions: 130 }],
+    durationDays: 14,
+};
+
+const post = (payload: string) => handleCalculation(new Request('http://localhost/api/test-analysis', { method: 'POST', body: payload }), parseTestAnalysisRequest, runTestAnalysis);
+
+describe('parseTestAnalysisRequest', () => {
+    it('fills in the same defaults as the page', () => {
+        const parsed = parseTestAnalysisRequest(body);
+        expect(parsed.ok && parsed.value).toMatchObject({ confidenceLevel: 95, hypothesis: 'two-sided', correction: 'holm', intervalMethod: 'wilson', sequential: null });
+    });
+
+    it('reports each invalid field', () => {
+        const parsed = parseTestAnalysisRequest({
+            control: { visitors: 100, conversions: 150 },
+            variants: [{ visitors: 0, conversions: 'ten' }],
+            confidenceLevel: 100,
+            correction: 'none',
+        });
+        expect(parsed.ok).toBe(false);
+        expect(!parsed.ok && parsed.issues.map(issue => issue.field)).toEqual([
+            'control.conversions', 'variants[0].visitors', 'variants[0].conversions', 'confidenceLevel', 'correction',
+        ]);
+    });
+});
+
+describe('runTestAnalysis', () => {
+    it('matches the calculation the page runs', () => {
+        const parsed = parseTestAnalysisRequest(body);
+        if (!parsed.ok) throw new Error('expected a valid request');
+        const expected = analyzeTest({
+            control: body.control, variants: body.variants, durationDays: 14, confidenceLevel: 0.95,
+            hypothesis: 'two-sided', margin: 0.01, correction: 'holm', intervalMethod: 'wilson',
+        });
+        expect(runTestAnalysis(parsed.value)).toEqual({ ...expected, cuped: null, sequential: null });
+    });
+
+    it('adds stopping decisions for a sequential analysis', () => {
+        const parsed = parseTestAnalysisRequest({ ...body, sequential: { plannedLooks: 5, currentLook: 5 } });
+        if (!parsed.ok) throw new Error('expected a valid request');
+        expect(runTestAnalysis(parsed.value)?.sequential?.decisions[0].decision).toBe('efficacy');
+    });
+});
+
+describe('POST /api/test-analysis', () => {
+    it('returns the analysis as JSON', async () => {
+        const response = await post(JSON.stringify(body));
+        expect(response.status).toBe(200);
+        expect((await response.json()).variantResults[0].label).toBe('B');
+    });
+
+    it('returns a structured 400 error', async () => {
+        const response = await post(JSON.stringify({ ...body, control: { visitors: 10, conversions: 20 } }));
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            error: 'The request has invalid fields.',
+            issues: [{ field: 'control.conversions', message: 'Conversions cannot exceed visitors.' }],
+        });
+    });
+
+    it('rejects a body that is not JSON', async () => {
+        expect((await post('visitors=10')).status).toBe(400);
+    });
+
+    it('sends values that cannot be computed as null', async () => {
+        const response = await post(JSON.stringify({ control: { visitors: 1000, conversions: 0 }, variants: [{ visitors: 1000, conversions: 10 }] }));
+        expect(response.status).toBe(200);
+        const [variant] = (await response.json()).variantResults;
+        expect(variant.uplift).toBeNull();
+        expect(variant.pValue).toBeGreaterThan(0);
+    });
+
+    it('returns a structured 500 error when the calculation throws', async () => {
+        const response = await handleCalculation(
+            new Request('http://localhost/api/test-analysis', { method: 'POST', body: JSON.stringify(body) }),
+            parseTestAnalysisRequest,
+            () => { throw new RangeError('Maximum call stack size exceeded'); },
+        );
+        expect(response.status).toBe(500);
+        expect(await response.json()).toEqual({ error: 'The calculation failed for these inputs.', issues: [] });
+    });
+});
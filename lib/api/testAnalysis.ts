@@ -0,0 +1,126 @@
+import {
+    analyzeTest, ArmCounts, CorrectionMethod, CORRECTIONS, CupedAnalysis, cupedFromCorrelation, Hypothesis, HYPOTHESES, INTERVAL_METHODS, IntervalMethod,
+    MAX_LOOKS, MAX_VARIANTS, SequentialLookResult, sequentialDesign, sequentialLook, SPENDING_FUNCTIONS, SpendingFunction, TEST_METHOD_CHOICES,
+    TestAnalysisResult, TestMethodChoice,
+} from '../stats';
+import { isObject, readChoice, readNumber, readOptionalNumber, Validated, ValidationIssue } from './validation';
+
+// Request handling for POST /api/test-analysis. Units match the calculator page: percentages are 0-100.
+
+/** Body of POST /api/test-analysis, with defaults filled in. */
+export type TestAnalysisRequest = {
+    control: ArmCounts;
+    /** Variations B, C, ... in order. */
+    variants: ArmCounts[];
+    durationDays: number;
+    /** Percent, e.g. 95. */
+    confidenceLevel: number;
+    hypothesis: Hypothesis;
+    /** Percent relative, e.g. 1. Only used for non-inferiority. */
+    margin: number;
+    correction: CorrectionMethod;
+    intervalMethod: IntervalMethod;
+    testMethod: TestMethodChoice;
+    /** Correlation of the conversions with a pre-period covariate, -1 to 1; adds CUPED-adjusted results. */
+    covariateCorrelation: number | null;
+    /** Present for a sequential analysis. */
+    sequential: { spending: SpendingFunction; plannedLooks: number; currentLook: number } | null;
+};
+
+export type TestAnalysisResponse = TestAnalysisResult & {
+    /** Variance-reduced results, alongside the unadjusted ones; null without a covariate correlation. */
+    cuped: CupedAnalysis | null;
+    sequential: {
+        fractions: number[];
+        boundaries: number[];
+        look: number;
+        decisions: (SequentialLookResult & { label: string })[];
+    } | null;
+};
+
+const readArm = (raw: unknown, field: string, issues: ValidationIssue[]): ArmCounts => {
+    if (!isObject(raw)) {
+        issues.push({ field, message: 'Must be an object with visitors and conversions.' });
+        return { visitors: NaN, conversions: NaN };
+    }
+    const visitors = readNumber(raw, 'visitors', `${field}.visitors`, issues, { above: 0 });
+    const conversions = readNumber(raw, 'conversions', `${field}.conversions`, issues, { min: 0 });
+    if (conversions > visitors) issues.push({ field: `${field}.conversions`, message: 'Conversions cannot exceed visitors.' });
+    const allocation = readOptionalNumber(raw, 'allocation', `${field}.allocation`, issues, { above: 0 });
+    return { visitors, conversions, allocation };
+};
+
+export const parseTestAnalysisRequest = (body: unknown): Validated<TestAnalysisRequest> => {
+    if (!isObject(body)) return { ok: false, issues: [{ field: '', message: 'The request body must be a JSON object.' }] };
+    const issues: ValidationIssue[] = [];
+
+    const control = readArm(body.control, 'control', issues);
+    let variants: ArmCounts[] = [];
+    if (!Array.isArray(body.variants) || body.variants.length === 0) {
+        issues.push({ field: 'variants', message: 'Must be a non-empty array of variations.' });
+    } else if (body.variants.length > MAX_VARIANTS) {
+        issues.push({ field: 'variants', message: `At most ${MAX_VARIANTS} variations are supported.` });
+    } else {
+        variants = body.variants.map((variant, i) => readArm(variant, `variants[${i}]`, issues));
+        const allocated = [control, ...variants].map(arm => arm.allocation !== undefined);
+        if (allocated.some(Boolean) && !allocated.every(Boolean)) {
+            issues.push({ field: 'allocation', message: 'Give an allocation for every arm or for none.' });
+        }
+    }
+
+    const durationDays = readNumber(body, 'durationDays', 'durationDays', issues, { fallback: 0, min: 0 });
+    const confidenceLevel = readNumber(body, 'confidenceLevel', 'confidenceLevel', issues, { fallback: 95, above: 0, below: 100 });
+    const hypothesis = readChoice(body, 'hypothesis', 'hypothesis', issues, HYPOTHESES, 'two-sided');
+    const margin = readNumber(body, 'margin', 'margin', issues, hypothesis === 'non-inferiority' ? { fallback: 1, above: 0, below: 100 } : { fallback: 1 });
+    const correction = readChoice(body, 'correction', 'correction', issues, CORRECTIONS, 'holm');
+    const intervalMethod = readChoice(body, 'intervalMethod', 'intervalMethod', issues, INTERVAL_METHODS, 'wilson');
+    const testMethod = readChoice(body, 'testMethod', 'testMethod', issues, TEST_METHOD_CHOICES, 'z-test');
+    const covariateCorrelation = readOptionalNumber(body, 'covariateCorrelation', 'covariateCorrelation', issues, { above: -1, below: 1 }) ?? null;
+
+    let sequential: TestAnalysisRequest['sequential'] = null;
+    if (body.sequential !== undefined && body.sequential !== null) {
+        if (!isObject(body.sequential)) {
+            issues.push({ field: 'sequential', message: 'Must be an object.' });
+        } else {
+            const spending = readChoice(body.sequential, 'spending', 'sequential.spending', issues, SPENDING_FUNCTIONS, 'obrien-fleming');
+            const plannedLooks = readNumber(body.sequential, 'plannedLooks', 'sequential.plannedLooks', issues, { fallback: 5, integer: true, min: 1, max: MAX_LOOKS });
+            const currentLook = readNumber(body.sequential, 'currentLook', 'sequential.currentLook', issues, { fallback: 1, integer: true, min: 1 });
+            if (currentLook > plannedLooks) issues.push({ field: 'sequential.currentLook', message: 'Cannot be after the last planned look.' });
+            sequential = { spending, plannedLooks, currentLook };
+        }
+    }
+
+    if (issues.length > 0) return { ok: false, issues };
+    return { ok: true, value: {
+        control, variants, durationDays, confidenceLevel, hypothesis, margin, correction, intervalMethod, testMethod, covariateCorrelation, sequential,
+    } };
+};
+
+/** Runs the same calculations as the Test Analysis mode. Returns null when the inputs cannot be analyzed. */
+export const runTestAnalysis = (request: TestAnalysisRequest): TestAnalysisResponse | null => {
+    const result = analyzeTest({
+        control: request.control,
+        variants: request.variants,
+        durationDays: request.durationDays,
+        confidenceLevel: request.confidenceLevel / 100,
+        hypothesis: request.hypothesis,
+        margin: request.margin / 100,
+        correction: request.correction,
+        intervalMethod: request.intervalMethod,
+        testMethod: request.testMethod,
+    });
+    if (!result) return null;
+    const cuped = request.covariateCorrelation === null ? null : cupedFromCorrelation(request.control, request.variants, request.covariateCorrelation, {
+        confidenceLevel: request.confidenceLevel / 100,
+        hypothesis: request.hypothesis,
+        margin: request.margin / 100,
+        correction: request.correction,
+    });
+    if (!request.sequential) return { ...result, cuped, sequential: null };
+
+    const { spending, plannedLooks, currentLook } = request.sequential;
+    const design = sequentialDesign(plannedLooks, request.confidenceLevel / 100, request.hypothesis, spending, request.variants.length);
+    if (!design) return { ...result, cuped, sequential: null };
+    const decisions = result.variantResults.map(variant => ({ label: variant.label, ...sequentialLook(design, currentLook, variant.zScore, request.hypothesis) }));
+    return { ...result, cuped, sequential: { ...design, look: currentLook, decisions } };
+};
@@ -0,0 +1,57 @@
+// Field-by-field validation of untrusted JSON request bodies.
+
+/** A problem with one field of the request, addressed by its path (e.g. `variants[0].conversions`). */
+export type ValidationIssue = { field: string; message: string };
+
+export type Validated<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+type Body = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Body => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type NumberRule = {
+    /** Used when the field is missing; without it the field is required. */
+    fallback?: number;
+    /** Exclusive bounds. */
+    above?: number;
+    below?: number;
+    /** Inclusive bounds. */
+    min?: number;
+    max?: number;
+    integer?: boolean;
+};
+
+// Reads a number and records an issue when it is missing or out of range. Returns NaN on failure.
+export const readNumber = (body: Body, key: string, field: string, issues: ValidationIssue[], rule: NumberRule = {}): number => {
+    const raw = body[key];
+    if (raw === undefined || raw === null) {
+        if (rule.fallback !== undefined) return rule.fallback;
+        issues.push({ field, message: 'This field is required.' });
+        return NaN;
+    }
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+        issues.push({ field, message: 'Must be a number.' });
+        return NaN;
+    }
+    const fail = (message: string) => {
+        issues.push({ field, message });
+        return NaN;
+    };
+    if (rule.integer && !Number.isInteger(raw)) return fail('Must be a whole number.');
+    if (rule.above !== undefined && raw <= rule.above) return fail(`Must be greater than ${rule.above}.`);
+    if (rule.below !== undefined && raw >= rule.below) return fail(`Must be less than ${rule.below}.`);
+    if (rule.min !== undefined && raw < rule.min) return fail(`Must be at least ${rule.min}.`);
+    if (rule.max !== undefined && raw > rule.max) return fail(`Must be at most ${rule.max}.`);
+    return raw;
+};
+
+export const readOptionalNumber = (body: Body, key: string, field: string, issues: ValidationIssue[], rule: NumberRule = {}): number | undefined =>
+    body[key] === undefined || body[key] === null ? undefined : readNumber(body, key, field, issues, rule);
+
+export const readChoice = <T extends string>(body: Body, key: string, field: string, issues: ValidationIssue[], choices: readonly T[], fallback: T): T => {
+    const raw = body[key];
+    if (raw === undefined || raw === null) return fallback;
+    if (typeof raw === 'string' && (choices as readonly string[]).includes(raw)) return raw as T;
+    issues.push({ field, message: `Must be one of: ${choices.join(', ')}.` });
+    return fallback;
+};
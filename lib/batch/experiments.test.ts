@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeExperiments, parseExperimentsCsv, parseExperimentsJson } from './experiments';
+import { formatResults } from './output';
+
+const csv = [
+    'id,duration,visitorsA,conversionsA,visitorsB,conversionsB,visitorsC,conversionsC',
+    'checkout-cta,14,1000,100,1000,130,,',
+    'pricing-page,21,5000,250,5000,260,5100,300',
+].join('\n');
+
+describe('parseExperimentsCsv', () => {
+    it('reads one experiment per row with any number of variations', () => {
+        const { experiments, errors } = parseExperimentsCsv(csv);
+        expect(errors).toEqual([]);
+        expect(experiments.map(e => [e.id, e.request.variants.length, e.request.durationDays])).toEqual([['checkout-cta', 1, 14], ['pricing-page', 2, 21]]);
+    });
+
+    it('reports invalid rows by experiment and field', () => {
+        const { errors } = parseExperimentsCsv('id;visitorsA;conversionsA;visitorsB;conversionsB\nbad;100;150;100;ten');
+        expect(errors).toEqual([{
+            id: 'bad',
+            issues: [
+                { field: 'control.conversions', message: 'Conversions cannot exceed visitors.' },
+                { field: 'variants[0].conversions', message: 'Must be a number.' },
+            ],
+        }]);
+    });
+
+    it('keeps the delimiter inside quoted cells', () => {
+        const { experiments, errors } = parseExperimentsCsv('id,visitorsA,conversionsA,visitorsB,conversionsB\n"exp, one",1000,100,1000,130\n"say ""hi""",10,1,10,2');
+        expect(errors).toEqual([]);
+        expect(experiments.map(e => [e.id, e.request.control.visitors, e.request.variants[0].conversions])).toEqual([['exp, one', 1000, 130], ['say "hi"', 10, 2]]);
+    });
+
+    it('reports a blank variation before a filled one', () => {
+        const { experiments, errors } = parseExperimentsCsv(`${csv.split('\n')[0]},visitorsD,conversionsD\ngap,14,1000,100,1000,130,,,1000,140`);
+        expect(experiments).toEqual([]);
+        expect(errors).toEqual([{ id: 'gap', issues: [{ field: 'variants[1]', message: 'Variation C is blank but a later variation is filled in. Fill in the variation columns in order.' }] }]);
+    });
+
+    it('rejects unknown columns', () => {
+        expect(parseExperimentsCsv('id,visitorsA,conversionsA,visitorsB,conversionsB,owner\nx,1,0,1,0,me').errors[0].issues).toEqual([{ field: 'owner', message: 'Unknown column.' }]);
+    });
+});
+
+describe('parseExperimentsJson', () => {
+    it('accepts API request bodies with an id', () => {
+        const { experiments } = parseExperimentsJson(JSON.stringify({
+            experiments: [{ id: 'hero', control: { visitors: 1000, conversions: 100 }, variants: [{ visitors: 1000, conversions: 130 }], hypothesis: 'greater' }],
+        }));
+        expect(experiments[0].id).toBe('hero');
+        expect(experiments[0].request.hypothesis).toBe('greater');
+    });
+
+    it('rejects files that are not an array of experiments', () => {
+        expect(parseExperimentsJson('{"id": 1}').errors[0].issues[0].message).toBe('Expected an array of experiments.');
+    });
+});
+
+describe('analyzeExperiments', () => {
+    it('flattens each variation into a row', () => {
+        const { rows } = analyzeExperiments(parseExperimentsCsv(csv).experiments);
+        expect(rows.map(row => `${row.id}/${row.variant}`)).toEqual(['checkout-cta/B', 'pricing-page/B', 'pricing-page/C']);
+        expect(rows[0].pValue).toBeCloseTo(0.03549, 5);
+        expect(rows[0].additionalDays).toBe(0);
+    });
+
+    it('gives no uplift when the control has no conversions', () => {
+        const { rows } = analyzeExperiments(parseExperimentsCsv('id,visitorsA,conversionsA,visitorsB,conversionsB\nzero,1000,0,1000,10').experiments);
+        expect([rows[0].uplift, rows[0].upliftLower, rows[0].upliftUpper]).toEqual([null, null, null]);
+        expect(JSON.parse(formatResults(rows, 'json'))[0].uplift).toBeNull();
+    });
+
+    it('formats the rows as CSV', () => {
+        const { rows } = analyzeExperiments(parseExperimentsCsv(csv).experiments);
+        const lines = formatResults(rows, 'csv').trim().split('\n');
+        expect(lines[0]).toBe('id,variant,controlRate,variantRate,uplift,upliftLower,upliftUpper,pValue,adjustedPValue,significant,additionalDays,projectedDuration,srmPValue');
+        expect(lines).toHaveLength(4);
+    });
+});
@@ -0,0 +1,157 @@
+import { parseTestAnalysisRequest, runTestAnalysis, TestAnalysisRequest } from '../api/testAnalysis';
+import { isObject, ValidationIssue } from '../api/validation';
+import { MAX_VARIANTS, variantLabel } from '../stats';
+import { readLines } from '../stats/table';
+
+// Batch analysis of many finished experiments, read from CSV or JSON.
+
+export type Experiment = { id: string; request: TestAnalysisRequest };
+
+/** Problems with one experiment (or with the file itself when `id` is empty). */
+export type ExperimentError = { id: string; issues: ValidationIssue[] };
+
+export type ParsedExperiments = { experiments: Experiment[]; errors: ExperimentError[] };
+
+/**
+ * One variation of one experiment compared with its control. Rates and p-values are fractions. The uplift and its
+ * bounds are null when they cannot be computed, e.g. when the control has no conversions.
+ */
+export type ResultRow = {
+    id: string;
+    variant: string;
+    controlRate: number;
+    variantRate: number;
+    uplift: number | null;
+    upliftLower: number | null;
+    upliftUpper: number | null;
+    pValue: number;
+    adjustedPValue: number;
+    significant: boolean;
+    additionalDays: number | 'N/A' | null;
+    projectedDuration: number | 'N/A' | null;
+    srmPValue: number | null;
+};
+
+const SETTING_COLUMNS: Record<string, string> = {
+    id: 'id',
+    duration: 'durationDays',
+    durationdays: 'durationDays',
+    confidence: 'confidenceLevel',
+    confidencelevel: 'confidenceLevel',
+    hypothesis: 'hypothesis',
+    margin: 'margin',
+    correction: 'correction',
+    intervalmethod: 'intervalMethod',
+    testmethod: 'testMethod',
+};
+
+const validate = (id: string, body: unknown, experiments: Experiment[], errors: ExperimentError[]) => {
+    const parsed = parseTestAnalysisRequest(body);
+    if (parsed.ok) experiments.push({ id, request: parsed.value });
+    else errors.push({ id, issues: parsed.issues });
+};
+
+// Accepts an array of API request bodies, each with an `id`, or an object with an `experiments` array.
+export const parseExperimentsJson = (text: string): ParsedExperiments => {
+    const experiments: Experiment[] = [];
+    const errors: ExperimentError[] = [];
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { experiments, errors: [{ id: '', issues: [{ field: '', message: 'The file is not valid JSON.' }] }] };
+    }
+    const list = isObject(data) ? data.experiments : data;
+    if (!Array.isArray(list)) {
+        return { experiments, errors: [{ id: '', issues: [{ field: '', message: 'Expected an array of experiments.' }] }] };
+    }
+
+    list.forEach((item, i) => {
+        const id = isObject(item) && (typeof item.id === 'string' || typeof item.id === 'number') ? String(item.id) : `#${i + 1}`;
+        validate(id, item, experiments, errors);
+    });
+    return { experiments, errors };
+};
+
+// Numbers stay numbers; anything else is passed on as text so validation can report it.
+const cellValue = (cell: string): string | number | undefined => {
+    if (cell === '') return undefined;
+    const value = Number(cell);
+    return Number.isFinite(value) ? value : cell;
+};
+
+// Wide CSV, one experiment per row: id, duration, visitorsA, conversionsA, visitorsB, conversionsB, ...
+export const parseExperimentsCsv = (text: string): ParsedExperiments => {
+    const experiments: Experiment[] = [];
+    const errors: ExperimentError[] = [];
+    const lines = readLines(text);
+    if (lines.length < 2) {
+        return { experiments, errors: [{ id: '', issues: [{ field: '', message: 'Expected a header row and at least one experiment.' }] }] };
+    }
+
+    const header = lines[0].cells.map(name => name.toLowerCase().replace(/[\s_-]/g, ''));
+    const unknown = header.filter(name => !SETTING_COLUMNS[name] && !/^(visitors|conversions|allocation)[a-z]$/.test(name));
+    if (unknown.length > 0) {
+        return { experiments, errors: [{ id: '', issues: unknown.map(name => ({ field: name, message: 'Unknown column.' })) }] };
+    }
+    if (!header.includes('visitorsa') || !header.includes('visitorsb')) {
+        return { experiments, errors: [{ id: '', issues: [{ field: '', message: 'Columns visitorsA, conversionsA, visitorsB and conversionsB are required.' }] }] };
+    }
+
+    lines.slice(1).forEach(({ lineNumber, cells }) => {
+        const row: Record<string, string | number | undefined> = {};
+        cells.forEach((cell, column) => {
+            if (header[column]) row[header[column]] = cellValue(cell);
+        });
+        const id = row.id !== undefined ? String(row.id) : `line ${lineNumber}`;
+        const arm = (letter: string) => ({ visitors: row[`visitors${letter}`], conversions: row[`conversions${letter}`], allocation: row[`allocation${letter}`] });
+
+        // Experiments with fewer arms leave the last variation columns blank, but not ones in between
+        const letters = Array.from({ length: MAX_VARIANTS }, (_, v) => variantLabel(v).toLowerCase());
+        const filled = letters.map(letter => row[`visitors${letter}`] !== undefined || row[`conversions${letter}`] !== undefined);
+        const count = filled.lastIndexOf(true) + 1;
+        const gap = filled.slice(0, count).indexOf(false);
+        if (gap >= 0) {
+            errors.push({ id, issues: [{ field: `variants[${gap}]`, message: `Variation ${variantLabel(gap)} is blank but a later variation is filled in. Fill in the variation columns in order.` }] });
+            return;
+        }
+
+        const body: Record<string, unknown> = { control: arm('a'), variants: letters.slice(0, count).map(arm) };
+        Object.entries(SETTING_COLUMNS).forEach(([column, field]) => {
+            if (column !== 'id' && row[column] !== undefined) body[field] = row[column];
+        });
+        validate(id, body, experiments, errors);
+    });
+    return { experiments, errors };
+};
+
+const finite = (value: number | undefined) => (value !== undefined && Number.isFinite(value) ? value : null);
+
+/** Runs the Test Analysis calculation for each experiment and flattens the variations into rows. */
+export const analyzeExperiments = (experiments: Experiment[]): { rows: ResultRow[]; errors: ExperimentError[] } => {
+    const rows: ResultRow[] = [];
+    const errors: ExperimentError[] = [];
+    experiments.forEach(({ id, request }) => {
+        const result = runTestAnalysis(request);
+        if (!result) {
+            errors.push({ id, issues: [{ field: '', message: 'These inputs cannot be analyzed.' }] });
+            return;
+        }
+        result.variantResults.forEach(variant => rows.push({
+            id,
+            variant: variant.label,
+            controlRate: result.convRateA,
+            variantRate: variant.convRateB,
+            uplift: finite(variant.uplift),
+            upliftLower: finite(variant.upliftInterval?.lower),
+            upliftUpper: finite(variant.upliftInterval?.upper),
+            pValue: variant.pValue,
+            adjustedPValue: variant.adjustedPValue,
+            significant: variant.isSignificant,
+            additionalDays: variant.additionalDaysNeeded,
+            projectedDuration: variant.projectedTotalDuration,
+            srmPValue: result.srm?.pValue ?? null,
+        }));
+    });
+    return { rows, errors };
+};
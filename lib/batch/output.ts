@@ -0,0 +1,60 @@
+import { ResultRow } from './experiments';
+
+// Writes batch results as CSV, JSON or an aligned terminal table.
+
+export type OutputFormat = 'csv' | 'json' | 'table';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['csv', 'json', 'table'];
+
+const COLUMNS: (keyof ResultRow)[] = [
+    'id', 'variant', 'controlRate', 'variantRate', 'uplift', 'upliftLower', 'upliftUpper',
+    'pValue', 'adjustedPValue', 'significant', 'additionalDays', 'projectedDuration', 'srmPValue',
+];
+
+const TABLE_HEADINGS: Record<keyof ResultRow, string> = {
+    id: 'Experiment',
+    variant: 'Variant',
+    controlRate: 'Control CR',
+    variantRate: 'Variant CR',
+    uplift: 'Uplift',
+    upliftLower: 'Uplift low',
+    upliftUpper: 'Uplift high',
+    pValue: 'P-value',
+    adjustedPValue: 'Adj. p-value',
+    significant: 'Significant',
+    additionalDays: 'Extra days',
+    projectedDuration: 'Total days',
+    srmPValue: 'SRM p-value',
+};
+
+const PERCENT_COLUMNS = new Set<keyof ResultRow>(['controlRate', 'variantRate', 'uplift', 'upliftLower', 'upliftUpper']);
+const P_VALUE_COLUMNS = new Set<keyof ResultRow>(['pValue', 'adjustedPValue', 'srmPValue']);
+
+const csvCell = (value: ResultRow[keyof ResultRow]) => {
+    if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const tableCell = (column: keyof ResultRow, value: ResultRow[keyof ResultRow]) => {
+    if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return 'N/A';
+    if (typeof value === 'boolean') return value ? 'yes' : 'no';
+    if (typeof value !== 'number') return String(value);
+    if (PERCENT_COLUMNS.has(column)) return `${(value * 100).toFixed(2)}%`;
+    if (P_VALUE_COLUMNS.has(column)) return value < 0.0001 ? '< 0.0001' : value.toFixed(4);
+    return String(value);
+};
+
+export const formatResults = (rows: ResultRow[], format: OutputFormat): string => {
+    if (format === 'json') return `${JSON.stringify(rows, null, 2)}\n`;
+
+    if (format === 'csv') {
+        const lines = [COLUMNS.join(','), ...rows.map(row => COLUMNS.map(column => csvCell(row[column])).join(','))];
+        return `${lines.join('\n')}\n`;
+    }
+
+    const cells = [COLUMNS.map(column => TABLE_HEADINGS[column]), ...rows.map(row => COLUMNS.map(column => tableCell(column, row[column])))];
+    const widths = COLUMNS.map((_, i) => Math.max(...cells.map(line => line[i].length)));
+    const render = (line: string[]) => line.map((cell, i) => (i < 2 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+    return `${[render(cells[0]), widths.map(width => '-'.repeat(width)).join('  '), ...cells.slice(1).map(render)].join('\n')}\n`;
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { parseShareInputs } from '../share/shareLink';
+import { checkBayesianInputs, checkContinuousInputs, checkInputs, checkPreTestInputs, checkTestAnalysisInputs, hasErrors } from './checks';
+
+const shared = (raw: Record<string, unknown>) => {
+    const parsed = parseShareInputs(raw);
+    if (!parsed.ok) throw new Error('invalid inputs');
+    return parsed.value;
+};
+
+const test = (inputs: Record<string, string>) => shared({ mode: 'test-analysis', ...inputs }).inputs;
+const plan = (inputs: Record<string, string>) => shared({ mode: 'pre-test-analysis', ...inputs }).inputs;
+const bayesian = (inputs: Record<string, string>) => shared({ mode: 'bayesian-analysis', ...inputs }).inputs;
+const continuous = (inputs: Record<string, string>) => shared({ mode: 'continuous-analysis', ...inputs }).inputs;
+
+describe('checkTestAnalysisInputs', () => {
+    it('accepts healthy counts and ignores blank fields', () => {
+        expect(checkTestAnalysisInputs(test({ visitorsA: '10000', conversionsA: '500', visitorsB: '10000', conversionsB: '560' }))).toEqual([]);
+        expect(checkTestAnalysisInputs(test({}))).toEqual([]);
+    });
+
+    it('explains impossible counts on the field that is wrong', () => {
+        const messages = checkTestAnalysisInputs(test({ visitorsA: '1000', conversionsA: '1200', visitorsB: '0', conversionsB: '2.5' }));
+        expect(messages).toEqual([
+            { field: 'conversionsA', severity: 'error', message: 'Conversions (1200) cannot exceed visitors (1000).' },
+            { field: 'visitorsB', severity: 'error', message: 'Visitors must be a whole number greater than 0.' },
+            { field: 'conversionsB', severity: 'error', message: 'Conversions must be a whole number of 0 or more.' },
+        ]);
+    });
+
+    it('warns about fragile counts and suggests alternatives', () => {
+        const messages = checkTestAnalysisInputs(test({ visitorsA: '1000', conversionsA: '4', visitorsB: '1000', conversionsB: '60' }));
+        expect(hasErrors(messages)).toBe(false);
+        expect(messages.map(message => message.field)).toEqual(['conversionsA', 'conversionsB']);
+        expect(messages[0].message).toContain("Fisher's exact test");
+        expect(messages[1].message).toContain('fewer than about 100 per arm');
+    });
+
+    it('drops the approximation warning when an exact test is chosen', () => {
+        const messages = checkTestAnalysisInputs(test({ visitorsA: '1000', conversionsA: '4', visitorsB: '1000', conversionsB: '6', testMethod: 'fisher' }));
+        expect(messages.map(message => message.message)).toEqual([expect.stringContaining('Only 4 conversions'), expect.stringContaining('Only 6 conversions')]);
+    });
+
+    it('checks the business impact inputs', () => {
+        const messages = checkTestAnalysisInputs(test({ averageOrderValue: '-20', monthlyTraffic: '0', rolloutMonths: '12' }));
+        expect(messages.map(message => message.field)).toEqual(['averageOrderValue', 'monthlyTraffic']);
+    });
+
+    it('checks sequential looks against each other', () => {
+        const messages = checkTestAnalysisInputs(test({ analysisType: 'sequential', plannedLooks: '3', currentLook: '4' }));
+        expect(messages).toEqual([{ field: 'currentLook', severity: 'error', message: 'The current look must be a whole number from 1 to 3.' }]);
+    });
+});
+
+describe('checkPreTestInputs', () => {
+    it('rejects zero baselines and impossible power', () => {
+        const messages = checkPreTestInputs(plan({ weeklyTraffic: '10000', weeklyConversions: '0', power: '100' }));
+        expect(messages.map(message => [message.field, message.severity])).toEqual([['weeklyConversions', 'error'], ['power', 'error']]);
+        expect(messages[1].message).toContain('infinite sample');
+    });
+
+    it('warns when the arms would collect too few conversions', () => {
+        const messages = checkPreTestInputs(plan({ weeklyTraffic: '10000', weeklyConversions: '20', maxWeeks: '4' }));
+        expect(messages).toEqual([expect.objectContaining({ field: 'weeklyConversions', severity: 'warning' })]);
+        expect(messages[0].message).toContain('about 40 conversions in 4 weeks');
+    });
+
+    it('checks the CUPED correlation', () => {
+        expect(checkPreTestInputs(plan({ covariateCorrelation: '1' }))).toEqual([
+            { field: 'covariateCorrelation', severity: 'error', message: 'The correlation must be between -1 and 1, e.g. 0.5.' },
+        ]);
+        expect(checkPreTestInputs(plan({ covariateCorrelation: '-0.95' }))[0]).toMatchObject({ severity: 'warning', message: expect.stringContaining('remove 90% of the variance') });
+    });
+
+    it('checks power even when solving for it, since the charts still use it', () => {
+        expect(checkPreTestInputs(plan({ solveFor: 'power', power: '100' })).map(message => message.field)).toEqual(['power']);
+    });
+
+    it('validates the allocation against the number of arms', () => {
+        expect(checkPreTestInputs(plan({ arms: '3', allocation: '50/50' }))).toEqual([
+            { field: 'allocation', severity: 'error', message: 'Give one positive share for each of the 3 arms, e.g. 33/33/33.' },
+        ]);
+    });
+});
+
+describe('checkBayesianInputs', () => {
+    it('rejects impossible counts and priors', () => {
+        expect(checkBayesianInputs(bayesian({ visitorsA: '100', conversionsA: '10', visitorsB: '100', conversionsB: '12' }))).toEqual([]);
+        expect(checkBayesianInputs(bayesian({ visitorsA: '100', conversionsA: '120', priorAlpha: '0', priorBeta: '-1' }))).toEqual([
+            { field: 'conversionsA', severity: 'error', message: 'Conversions (120) cannot exceed visitors (100).' },
+            { field: 'priorAlpha', severity: 'error', message: 'Prior α must be greater than 0, e.g. 1 for a uniform prior.' },
+            { field: 'priorBeta', severity: 'error', message: 'Prior β must be greater than 0, e.g. 1 for a uniform prior.' },
+        ]);
+    });
+});
+
+describe('checkContinuousInputs', () => {
+    it('rejects summary statistics that cannot be tested', () => {
+        expect(checkContinuousInputs(continuous({ meanA: '4', sdA: '10', nA: '500', meanB: '4.5', sdB: '11', nB: '500' }))).toEqual([]);
+        expect(checkContinuousInputs(continuous({ sdA: '-1', nA: '1' })).map(message => message.field)).toEqual(['nA', 'sdA']);
+        expect(checkContinuousInputs(continuous({ sdA: '0', sdB: '0' }))).toEqual([
+            { field: 'sdB', severity: 'error', message: 'Both standard deviations are 0, so there is no spread to test the difference against.' },
+        ]);
+    });
+
+    it('checks the non-inferiority margin', () => {
+        expect(checkContinuousInputs(continuous({ hypothesis: 'non-inferiority', margin: '0' })).map(message => message.field)).toEqual(['margin']);
+        expect(checkContinuousInputs(continuous({ hypothesis: 'greater', margin: '0' }))).toEqual([]);
+    });
+
+    it('checks raw values instead of the summary fields', () => {
+        const messages = checkContinuousInputs(continuous({ inputMethod: 'raw', rawA: '12.5', rawB: '1\n2\n3', sdA: '-1' }));
+        expect(messages).toEqual([{ field: 'rawA', severity: 'error', message: 'Enter at least two values to estimate the spread.' }]);
+        expect(checkContinuousInputs(continuous({ inputMethod: 'raw', rawA: '5 5', rawB: '7 7 7' })).map(message => message.field)).toEqual(['rawB']);
+    });
+});
+
+describe('checkInputs', () => {
+    it('dispatches on the mode', () => {
+        expect(hasErrors(checkInputs(shared({ mode: 'pre-test-analysis', weeklyTraffic: '-5' })))).toBe(true);
+        expect(hasErrors(checkInputs(shared({ mode: 'bayesian-analysis', visitorsA: '-5' })))).toBe(true);
+        expect(hasErrors(checkInputs(shared({ mode: 'continuous-analysis', nB: '0' })))).toBe(true);
+    });
+});
@@ -0,0 +1,213 @@
+import { SharedState, ShareInputs } from '../share/shareLink';
+import { MAX_LOOKS, MAX_PLANNING_WEEKS, MAX_VARIANTS, parseAllocation, parseRawValues, summarizeValues, variantLabel } from '../stats';
+
+// Field-by-field checks of the calculator's form inputs, shared by the page and the share link loader.
+// Errors explain why no result can be shown; warnings flag inputs where the result is statistically fragile.
+
+export type FieldSeverity = 'error' | 'warning';
+
+/** A message about one input, addressed by its share link key (e.g. `conversionsB`). */
+export type FieldMessage = { field: string; severity: FieldSeverity; message: string };
+
+/** Below this many conversions per arm, results swing noticeably with a few conversions. */
+export const FRAGILE_CONVERSIONS = 100;
+
+/** The normal approximation needs at least this many successes and failures per arm. */
+export const NORMAL_APPROXIMATION_MINIMUM = 10;
+
+type Checker = {
+    messages: FieldMessage[];
+    /** The value as a number, or null when it is blank. */
+    value: (field: string) => number | null;
+    error: (field: string, message: string) => void;
+    warning: (field: string, message: string) => void;
+    /** Records an error unless the value is blank or passes `isValid`; returns the number when it passes. */
+    require: (field: string, isValid: (value: number) => boolean, message: string) => number | null;
+};
+
+const checker = (inputs: ShareInputs): Checker => {
+    const messages: FieldMessage[] = [];
+    const value = (field: string) => {
+        const text = (inputs[field] ?? '').trim();
+        return text === '' ? null : Number(text);
+    };
+    const error = (field: string, message: string) => messages.push({ field, severity: 'error', message });
+    const warning = (field: string, message: string) => messages.push({ field, severity: 'warning', message });
+    const require = (field: string, isValid: (value: number) => boolean, message: string) => {
+        const number = value(field);
+        if (number === null) return null;
+        if (!Number.isFinite(number) || !isValid(number)) {
+            error(field, message);
+            return null;
+        }
+        return number;
+    };
+    return { messages, value, error, warning, require };
+};
+
+const isPercent = (value: number) => value > 0 && value < 100;
+
+/** Above this correlation, a pre-period covariate explains more of the metric than is realistic. */
+export const IMPLAUSIBLE_CORRELATION = 0.9;
+
+// The CUPED covariate correlation, with a warning when it promises too much
+const checkCorrelation = (check: Checker) => {
+    const correlation = check.require('covariateCorrelation', value => value > -1 && value < 1, 'The correlation must be between -1 and 1, e.g. 0.5.');
+    if (correlation !== null && Math.abs(correlation) > IMPLAUSIBLE_CORRELATION) {
+        check.warning('covariateCorrelation', `A correlation of ${correlation} would remove ${Math.round(correlation ** 2 * 100)}% of the variance, more than pre-period data usually explains. Check it was measured on the same metric and users.`);
+    }
+};
+const isWholeAtLeast = (min: number) => (value: number) => Number.isInteger(value) && value >= min;
+
+// Visitors and conversions of one arm; returns them when both are valid
+const checkCounts = (check: Checker, label: string) => {
+    const visitors = check.require(`visitors${label}`, isWholeAtLeast(1), 'Visitors must be a whole number greater than 0.');
+    const conversions = check.require(`conversions${label}`, isWholeAtLeast(0), 'Conversions must be a whole number of 0 or more.');
+    if (visitors === null || conversions === null) return null;
+    if (conversions > visitors) {
+        check.error(`conversions${label}`, `Conversions (${conversions}) cannot exceed visitors (${visitors}).`);
+        return null;
+    }
+    return { visitors, conversions };
+};
+
+// Counts of one arm, with warnings where the normal approximation is weak unless the test method allows for it.
+const checkArm = (check: Checker, label: string, smallSampleTest: boolean) => {
+    const counts = checkCounts(check, label);
+    if (!counts) return;
+    const { visitors, conversions } = counts;
+
+    if (!smallSampleTest && Math.min(conversions, visitors - conversions) < NORMAL_APPROXIMATION_MINIMUM) {
+        const count = conversions <= visitors - conversions ? `${conversions} conversions` : `${visitors - conversions} visitors without a conversion`;
+        check.warning(`conversions${label}`, `With only ${count}, the normal approximation behind the p-value breaks down. Switch the test method to Fisher's exact test or Automatic, collect more data, or use Bayesian Analysis for a direct probability.`);
+    } else if (conversions < FRAGILE_CONVERSIONS) {
+        check.warning(`conversions${label}`, `Only ${conversions} conversions: with fewer than about ${FRAGILE_CONVERSIONS} per arm a few conversions can change the verdict. Treat the result as preliminary and let the test run longer.`);
+    }
+};
+
+export const checkTestAnalysisInputs = (inputs: ShareInputs): FieldMessage[] => {
+    const check = checker(inputs);
+    const labels = ['A'];
+    for (let i = 0; i < MAX_VARIANTS && inputs[`visitors${variantLabel(i)}`] !== undefined; i++) labels.push(variantLabel(i));
+
+    const smallSampleTest = inputs.testMethod === 'fisher' || inputs.testMethod === 'auto';
+    labels.forEach(label => checkArm(check, label, smallSampleTest));
+
+    const shares = labels.map(label => check.require(`allocation${label}`, value => value > 0, 'The expected traffic share must be greater than 0.'));
+    const blankShares = labels.filter(label => check.value(`allocation${label}`) === null);
+    if (blankShares.length > 0 && blankShares.length < labels.length && shares.every(share => share === null || share > 0)) {
+        blankShares.forEach(label => check.warning(`allocation${label}`, 'Give an expected share for every arm, or leave them all blank for an equal split. The sample ratio check is skipped until then.'));
+    }
+
+    const level = check.require('confidenceLevel', isPercent, 'The confidence level must be between 0 and 100, e.g. 95.');
+    if (level !== null && level < 80) check.warning('confidenceLevel', `At ${level}% confidence, about ${Math.round(100 - level)} in 100 tests without a real effect will look significant.`);
+    if (inputs.hypothesis === 'non-inferiority') check.require('margin', isPercent, 'The non-inferiority margin must be between 0 and 100%.');
+    check.require('testDuration', value => value >= 0, 'The test duration cannot be negative.');
+    check.require('averageOrderValue', value => value >= 0, 'The average order value cannot be negative.');
+    check.require('monthlyTraffic', value => value > 0, 'Monthly traffic must be greater than 0.');
+    check.require('rolloutMonths', value => value > 0, 'The rollout horizon must be greater than 0 months.');
+    checkCorrelation(check);
+
+    if (inputs.analysisType === 'sequential') {
+        const looks = check.require('plannedLooks', value => Number.isInteger(value) && value >= 1 && value <= MAX_LOOKS, `Planned looks must be a whole number from 1 to ${MAX_LOOKS}.`);
+        check.require('currentLook', value => Number.isInteger(value) && value >= 1 && (looks === null || value <= looks), `The current look must be a whole number from 1 to ${looks ?? 'the planned number of looks'}.`);
+    }
+    return check.messages;
+};
+
+export const checkPreTestInputs = (inputs: ShareInputs): FieldMessage[] => {
+    const check = checker(inputs);
+    const isContinuous = inputs.metricType === 'continuous';
+    const solveFor = inputs.solveFor;
+
+    const traffic = check.require('weeklyTraffic', value => value > 0, 'Weekly traffic must be greater than 0.');
+    if (isContinuous) {
+        check.require('baselineMean', value => value > 0, 'The baseline mean must be greater than 0.');
+        check.require('baselineSd', value => value > 0, 'The baseline standard deviation must be greater than 0.');
+    } else {
+        const conversions = check.require('weeklyConversions', value => value >= 0, 'Weekly conversions cannot be negative.');
+        if (conversions === 0) check.error('weeklyConversions', 'With zero baseline conversions there is no rate to improve on. Use the conversions of a similar page or metric instead.');
+        else if (conversions !== null && traffic !== null && conversions >= traffic) check.error('weeklyConversions', `Weekly conversions (${conversions}) must be less than weekly traffic (${traffic}).`);
+    }
+
+    check.require('confidence', isPercent, 'The confidence level must be between 0 and 100, e.g. 95.');
+    check.require('power', isPercent, 'Power must be between 0 and 100, e.g. 80. Reaching 100% power would take an infinite sample.');
+    if (inputs.hypothesis === 'non-inferiority') check.require('margin', isPercent, 'The non-inferiority margin must be between 0 and 100%.');
+
+    const arms = check.require('arms', value => Number.isInteger(value) && value >= 2 && value <= MAX_VARIANTS + 1, `The number of arms must be a whole number from 2 to ${MAX_VARIANTS + 1}.`);
+    if (arms !== null && !parseAllocation(inputs.allocation ?? '', arms)) {
+        check.error('allocation', `Give one positive share for each of the ${arms} arms, e.g. ${Array.from({ length: arms }, () => Math.floor(100 / arms)).join('/')}.`);
+    }
+    const exposure = check.require('exposure', value => value > 0 && value <= 100, 'Traffic in the experiment must be above 0 and at most 100%.');
+
+    if (solveFor !== 'duration') {
+        const weekRule = (value: number) => Number.isInteger(value) && value >= 1 && value <= MAX_PLANNING_WEEKS;
+        const weekMessage = `Must be a whole number of weeks from 1 to ${MAX_PLANNING_WEEKS}.`;
+        const minWeeks = check.require('minWeeks', weekRule, weekMessage);
+        const maxWeeks = check.require('maxWeeks', weekRule, weekMessage);
+        if (minWeeks !== null && maxWeeks !== null && maxWeeks < minWeeks) check.error('maxWeeks', `The last duration (${maxWeeks}) must not be before the first (${minWeeks}).`);
+        check.require('powerCurveWeeks', isWholeAtLeast(1), 'The power curve duration must be a whole number of weeks.');
+
+        // Conversions each arm would collect by the end of the table
+        const conversions = check.value('weeklyConversions');
+        if (!isContinuous && conversions !== null && conversions > 0 && arms !== null && exposure !== null && maxWeeks !== null) {
+            const perArm = (conversions * (exposure / 100) * maxWeeks) / arms;
+            if (perArm < FRAGILE_CONVERSIONS) {
+                check.warning('weeklyConversions', `Each arm would collect only about ${Math.round(perArm)} conversions in ${maxWeeks} weeks. Plans this small rely on the normal approximation; consider a longer test, fewer arms or a metric that converts more often.`);
+            }
+        }
+    }
+    if (solveFor === 'mde') check.require('mdeCeiling', value => value > 0, 'The MDE search ceiling must be greater than 0.');
+    check.require('targetMde', value => value > 0, 'The target MDE must be greater than 0.');
+    checkCorrelation(check);
+    return check.messages;
+};
+
+export const checkBayesianInputs = (inputs: ShareInputs): FieldMessage[] => {
+    const check = checker(inputs);
+    checkCounts(check, 'A');
+    checkCounts(check, 'B');
+    check.require('priorAlpha', value => value > 0, 'Prior α must be greater than 0, e.g. 1 for a uniform prior.');
+    check.require('priorBeta', value => value > 0, 'Prior β must be greater than 0, e.g. 1 for a uniform prior.');
+    return check.messages;
+};
+
+export const checkContinuousInputs = (inputs: ShareInputs): FieldMessage[] => {
+    const check = checker(inputs);
+    const level = check.require('confidenceLevel', isPercent, 'The confidence level must be between 0 and 100, e.g. 95.');
+    if (level !== null && level < 80) check.warning('confidenceLevel', `At ${level}% confidence, about ${Math.round(100 - level)} in 100 tests without a real effect will look significant.`);
+    if (inputs.hypothesis === 'non-inferiority') check.require('margin', isPercent, 'The non-inferiority margin must be between 0 and 100%.');
+
+    // Raw values are checked where they are entered; their number errors are listed with the values
+    if (inputs.inputMethod === 'raw') {
+        const summaries = (['A', 'B'] as const).map(group => {
+            const text = (inputs[`raw${group}`] ?? '').trim();
+            const parsed = parseRawValues(text);
+            if (text === '' || parsed.errors.length > 0) return null;
+            const summary = summarizeValues(parsed.values);
+            if (!summary) check.error(`raw${group}`, 'Enter at least two values to estimate the spread.');
+            return summary;
+        });
+        if (summaries[0]?.sd === 0 && summaries[1]?.sd === 0) {
+            check.error('rawB', 'Every user has the same value in both groups, so there is no spread to test the difference against.');
+        }
+        return check.messages;
+    }
+
+    const sds = (['A', 'B'] as const).map(group => {
+        check.require(`n${group}`, isWholeAtLeast(2), 'The sample size must be a whole number of at least 2.');
+        return check.require(`sd${group}`, value => value >= 0, 'The standard deviation cannot be negative.');
+    });
+    if (sds[0] === 0 && sds[1] === 0) check.error('sdB', 'Both standard deviations are 0, so there is no spread to test the difference against.');
+    return check.messages;
+};
+
+/** Checks the inputs of any mode. */
+export const checkInputs = ({ mode, inputs }: SharedState): FieldMessage[] => {
+    if (mode === 'test-analysis') return checkTestAnalysisInputs(inputs);
+    if (mode === 'pre-test-analysis') return checkPreTestInputs(inputs);
+    if (mode === 'bayesian-analysis') return checkBayesianInputs(inputs);
+    return checkContinuousInputs(inputs);
+};
+
+export const hasErrors = (messages: FieldMessage[]) => messages.some(message => message.severity === 'error');
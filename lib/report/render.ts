@@ -0,0 +1,104 @@
+import { Report, ReportBlock } from './report';
+
+// Renders reports as Markdown for pasting into docs, or as a self-contained HTML page that prints cleanly to PDF.
+
+const timestamp = (date: Date) => date.toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+
+const markdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const markdownTable = (headers: string[], rows: string[][]) => [
+    `| ${headers.map(markdownCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+].join('\n');
+
+const markdownBlock = (block: ReportBlock) => {
+    switch (block.kind) {
+        case 'items': return block.items.map(([label, value]) => `- **${label}:** ${value}`).join('\n');
+        case 'table': return markdownTable(block.headers, block.rows);
+        case 'text': return block.tone === 'warning' ? `> **Warning:** ${block.text}` : block.tone ? `**${block.text}**` : block.text;
+    }
+};
+
+export const renderReportMarkdown = (report: Report): string => {
+    const parts = [`# ${report.title}`, `_Generated ${timestamp(report.generatedAt)}_`];
+    report.sections.forEach(section => {
+        parts.push(`## ${section.heading}`, ...section.blocks.map(markdownBlock));
+    });
+    if (report.charts.length > 0) parts.push(`_${report.charts.length} chart${report.charts.length > 1 ? 's are' : ' is'} included in the printable report._`);
+    return `${parts.join('\n\n')}\n`;
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlBlock = (block: ReportBlock) => {
+    switch (block.kind) {
+        case 'items':
+            return `<table class="items">${block.items.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`;
+        case 'table':
+            return `<table><thead><tr>${block.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>`
+                + `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+        case 'text':
+            return `<p${block.tone ? ` class="${block.tone}"` : ''}>${escapeHtml(block.text)}</p>`;
+    }
+};
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1a1a1a; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.4; }
+h1 { margin-bottom: 0.25rem; }
+h2 { margin-top: 2rem; border-bottom: 2px solid #eee; padding-bottom: 0.25rem; font-size: 1.2rem; }
+.generated { color: #666; margin-top: 0; }
+table { width: 100%; border-collapse: collapse; margin: 0.75rem 0; }
+th, td { padding: 0.4rem 0.75rem; border-bottom: 1px solid #eee; text-align: left; }
+thead th { background-color: #f5f5f5; }
+.items th { width: 45%; font-weight: normal; color: #555; }
+.items td { font-weight: bold; text-align: right; }
+.positive { color: #28a745; font-weight: bold; }
+.negative { color: #dc3545; font-weight: bold; }
+.warning { border: 2px solid #dc3545; border-radius: 6px; padding: 0.5rem 0.75rem; background-color: #fbeaec; color: #842029; }
+figure { margin: 1.5rem 0; }
+figcaption { font-weight: bold; margin-bottom: 0.5rem; }
+figure svg { width: 100%; height: auto; display: block; }
+.legend { display: flex; flex-wrap: wrap; gap: 1rem; font-size: 0.85rem; color: #555; }
+.swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 0.35rem; }
+.toolbar { text-align: right; }
+.toolbar button { padding: 0.5rem 1rem; font-size: 1rem; cursor: pointer; }
+@page { margin: 15mm; }
+@media print {
+  body { margin: 0; max-width: none; }
+  .toolbar { display: none; }
+  table, figure, p { break-inside: avoid; }
+  h2 { break-after: avoid; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+}
+`;
+
+export const renderReportHtml = (report: Report): string => {
+    const body = [
+        '<div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>',
+        `<h1>${escapeHtml(report.title)}</h1>`,
+        `<p class="generated">Generated ${escapeHtml(timestamp(report.generatedAt))}</p>`,
+        ...report.sections.map(section => `<section><h2>${escapeHtml(section.heading)}</h2>${section.blocks.map(htmlBlock).join('\n')}</section>`),
+    ];
+    if (report.charts.length > 0) {
+        body.push('<section><h2>Charts</h2>', ...report.charts.map(chart => {
+            const legend = chart.legend.length > 0
+                ? `<div class="legend">${chart.legend.map(item => `<span><span class="swatch" style="background-color: ${escapeHtml(item.color)}"></span>${escapeHtml(item.label)}</span>`).join('')}</div>`
+                : '';
+            // The SVG markup comes from the calculator's own charts
+            return `<figure><figcaption>${escapeHtml(chart.title)}</figcaption>${chart.svg}${legend}</figure>`;
+        }), '</section>');
+    }
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parsePreTestAnalysisRequest, runPreTestAnalysis } from '../api/preTestAnalysis';
+import { parseTestAnalysisRequest, runTestAnalysis } from '../api/testAnalysis';
+import { renderReportHtml, renderReportMarkdown } from './render';
+import { planningReport, testAnalysisReport } from './report';
+
+const generatedAt = new Date('2024-06-01T12:00:00Z');
+
+const analyze = (body: unknown) => {
+    const parsed = parseTestAnalysisRequest(body);
+    if (!parsed.ok) throw new Error('invalid request');
+    const result = runTestAnalysis(parsed.value);
+    if (!result) throw new Error('no result');
+    return testAnalysisReport(parsed.value, result, [], generatedAt);
+};
+
+describe('testAnalysisReport', () => {
+    const report = analyze({ control: { visitors: 1000, conversions: 100 }, variants: [{ visitors: 1000, conversions: 130 }], durationDays: 14 });
+
+    it('renders inputs, rates and the verdict as Markdown', () => {
+        const markdown = renderReportMarkdown(report);
+        expect(markdown).toContain('# A/B Test Report\n\n_Generated 2024-06-01 12:00 UTC_');
+        expect(markdown).toContain('| Control (A) | 1,000 | 100 |');
+        expect(markdown).toContain('| Variation (B) | 13.00% |');
+        expect(markdown).toContain('- **Uplift:** 30.00%');
+        expect(markdown).toContain('- **P-value:** 0.0355');
+        expect(markdown).toContain('**The change is statistically significant.**');
+    });
+
+    it('adds sequential boundaries and decisions', () => {
+        const sequential = analyze({
+            control: { visitors: 1000, conversions: 100 },
+            variants: [{ visitors: 1000, conversions: 130 }],
+            sequential: { plannedLooks: 3, currentLook: 1 },
+        });
+        expect(sequential.sections.map(section => section.heading)).toContain('Sequential Boundaries');
+        expect(renderReportMarkdown(sequential)).toContain('Continue the test to the next planned look.');
+    });
+
+    it('labels CUPED-adjusted results', () => {
+        const cuped = analyze({ control: { visitors: 1000, conversions: 100 }, variants: [{ visitors: 1000, conversions: 130 }], covariateCorrelation: 0.5 });
+        expect(cuped.sections.map(section => section.heading)).toContain('CUPED-adjusted Results');
+        expect(renderReportMarkdown(cuped)).toContain('ρ = 0.50 (entered), 25.00% less variance');
+        expect(report.sections.map(section => section.heading)).not.toContain('CUPED-adjusted Results');
+    });
+});
+
+describe('planningReport', () => {
+    it('lists the MDE for each duration', () => {
+        const parsed = parsePreTestAnalysisRequest({ weeklyTraffic: 10000, weeklyConversions: 500, minWeeks: 1, maxWeeks: 2 });
+        if (!parsed.ok) throw new Error('invalid request');
+        const result = runPreTestAnalysis(parsed.value);
+        if (!result) throw new Error('no result');
+        const markdown = renderReportMarkdown(planningReport(parsed.value, result, [], generatedAt));
+        expect(markdown).toContain('- **Baseline conversion rate:** 5.00%');
+        expect(markdown).toMatch(/\| 1 week \| \d+\.\d\d% \|\n\| 2 weeks \| \d+\.\d\d% \|/);
+    });
+});
+
+describe('renderReportHtml', () => {
+    it('escapes text and embeds charts with their legend', () => {
+        const html = renderReportHtml({
+            title: 'Plan <draft>',
+            generatedAt,
+            sections: [{ heading: 'Notes', blocks: [{ kind: 'text', text: 'A & B', tone: 'warning' }] }],
+            charts: [{ title: 'Uplift', svg: '<svg viewBox="0 0 10 10"></svg>', legend: [{ label: 'B vs A', color: '#0070f3' }] }],
+        });
+        expect(html).toContain('<title>Plan &lt;draft&gt;</title>');
+        expect(html).toContain('<p class="warning">A &amp; B</p>');
+        expect(html).toContain('<figcaption>Uplift</figcaption><svg viewBox="0 0 10 10"></svg><div class="legend">');
+        expect(html).toContain('@media print');
+    });
+});
@@ -0,0 +1,259 @@
+import { PreTestAnalysisRequest, PreTestAnalysisResponse } from '../api/preTestAnalysis';
+import { TestAnalysisRequest, TestAnalysisResponse } from '../api/testAnalysis';
+import { CorrectionMethod, CupedAnalysis, Hypothesis, Interval, IntervalMethod, SequentialDecision, SpendingFunction, TestMethod, variantLabel } from '../stats';
+
+// Experiment and planning reports as plain data, rendered to Markdown or printable HTML by ./render.
+
+export type ReportBlock =
+    | { kind: 'items'; items: [string, string][] }
+    | { kind: 'table'; headers: string[]; rows: string[][] }
+    | { kind: 'text'; text: string; tone?: 'positive' | 'negative' | 'warning' };
+
+export type ReportSection = { heading: string; blocks: ReportBlock[] };
+
+/** A chart as standalone SVG markup; multi-series charts list their series colors in `legend`. */
+export type ReportChart = { title: string; svg: string; legend: { label: string; color: string }[] };
+
+export type Report = { title: string; generatedAt: Date; sections: ReportSection[]; charts: ReportChart[] };
+
+export const verdictText = (hypothesis: Hypothesis, isSignificant: boolean, margin: number | string) => {
+    switch (hypothesis) {
+        case 'greater':
+            return isSignificant ? 'The variation is statistically significantly better than the control.' : 'There is not enough evidence that the variation is better than the control.';
+        case 'less':
+            return isSignificant ? 'The variation is statistically significantly worse than the control.' : 'There is not enough evidence that the variation is worse than the control.';
+        case 'non-inferiority':
+            return isSignificant ? `The variation is non-inferior to the control (within a ${margin}% margin).` : `Non-inferiority within a ${margin}% margin could not be shown.`;
+        default:
+            return isSignificant ? 'The change is statistically significant.' : 'The change is not statistically significant.';
+    }
+};
+
+export const decisionText: Record<SequentialDecision, string> = {
+    efficacy: 'Stop for efficacy: the efficacy boundary has been crossed.',
+    futility: 'Stop for futility: the test is unlikely to reach significance.',
+    continue: 'Continue the test to the next planned look.',
+};
+
+const HYPOTHESIS_LABELS: Record<Hypothesis, string> = {
+    'two-sided': 'Two-sided (B ≠ A)',
+    greater: 'One-sided (B > A)',
+    less: 'One-sided (B < A)',
+    'non-inferiority': 'Non-inferiority',
+};
+
+const CORRECTION_LABELS: Record<CorrectionMethod, string> = {
+    bonferroni: 'Bonferroni',
+    holm: 'Holm-Bonferroni',
+    'benjamini-hochberg': 'Benjamini-Hochberg',
+};
+
+const INTERVAL_LABELS: Record<IntervalMethod, string> = {
+    wilson: 'Wilson score',
+    'agresti-coull': 'Agresti-Coull',
+};
+
+export const TEST_METHOD_LABELS: Record<TestMethod, string> = {
+    'z-test': 'Z-test',
+    'chi-square': 'Chi-square test',
+    yates: 'Chi-square test with Yates correction',
+    fisher: "Fisher's exact test",
+};
+
+const SPENDING_LABELS: Record<SpendingFunction, string> = {
+    'obrien-fleming': "O'Brien-Fleming",
+    pocock: 'Pocock',
+};
+
+const percent = (value: number | null | undefined) => {
+    if (value === null || value === undefined || isNaN(value)) return 'N/A';
+    if (value === Infinity) return '∞%';
+    return `${(value * 100).toFixed(2)}%`;
+};
+
+const pValue = (value: number) => (value < 0.0001 ? '< 0.0001' : value.toFixed(4));
+
+const interval = (value: Interval | null) => (value ? `${percent(value.lower)} to ${percent(value.upper)}` : 'N/A');
+
+const count = (value: number) => value.toLocaleString('en-US');
+
+const armName = (index: number) => (index === 0 ? 'Control (A)' : `Variation (${variantLabel(index - 1)})`);
+
+/** How a CUPED adjustment was made, e.g. "ρ = 0.50 (entered), 25.00% less variance". */
+export const cupedText = (cuped: Pick<CupedAnalysis, 'source' | 'correlation' | 'varianceReduction'>) =>
+    `ρ = ${cuped.correlation.toFixed(2)} (${cuped.source === 'correlation' ? 'entered' : 'estimated from per-user data'}), ${percent(cuped.varianceReduction)} less variance`;
+
+const hypothesisItem = (hypothesis: Hypothesis, margin: number): [string, string] =>
+    ['Hypothesis', hypothesis === 'non-inferiority' ? `${HYPOTHESIS_LABELS[hypothesis]}, ${margin}% margin` : HYPOTHESIS_LABELS[hypothesis]];
+
+/** Report of a finished test: inputs, rates, per-variation comparisons, verdicts, SRM and sequential boundaries. */
+export const testAnalysisReport = (request: TestAnalysisRequest, result: TestAnalysisResponse, charts: ReportChart[] = [], generatedAt = new Date()): Report => {
+    const arms = [request.control, ...request.variants];
+    const hasAllocation = arms.every(arm => arm.allocation !== undefined);
+    const settings: [string, string][] = [
+        hypothesisItem(request.hypothesis, request.margin),
+        ['Confidence level', `${request.confidenceLevel}%`],
+        ['Interval method', INTERVAL_LABELS[request.intervalMethod]],
+        ['Test method', request.testMethod === 'auto' ? `Automatic (${TEST_METHOD_LABELS[result.recommendation.method]})` : TEST_METHOD_LABELS[request.testMethod]],
+    ];
+    if (request.variants.length > 1) settings.push(['Multiple-comparison correction', CORRECTION_LABELS[request.correction]]);
+    if (request.durationDays > 0) settings.push(['Test duration so far', `${request.durationDays} days`]);
+    if (result.cuped) settings.push(['Variance reduction (CUPED)', cupedText(result.cuped)]);
+    settings.push(['Analysis', request.sequential
+        ? `Sequential, ${SPENDING_LABELS[request.sequential.spending]} spending, look ${request.sequential.currentLook} of ${request.sequential.plannedLooks}`
+        : 'Fixed horizon']);
+
+    const sections: ReportSection[] = [
+        {
+            heading: 'Inputs',
+            blocks: [
+                {
+                    kind: 'table',
+                    headers: ['Arm', 'Visitors', 'Conversions', ...(hasAllocation ? ['Expected share'] : [])],
+                    rows: arms.map((arm, i) => [armName(i), count(arm.visitors), count(arm.conversions), ...(hasAllocation ? [`${arm.allocation}%`] : [])]),
+                },
+                { kind: 'items', items: settings },
+            ],
+        },
+        {
+            heading: 'Conversion Rates',
+            blocks: [{
+                kind: 'table',
+                headers: ['Arm', 'Conversion rate', `${request.confidenceLevel}% CI`],
+                rows: [
+                    [armName(0), percent(result.convRateA), interval(result.intervalA)],
+                    ...result.variantResults.map((variant, i) => [armName(i + 1), percent(variant.convRateB), interval(variant.rateInterval)]),
+                ],
+            }],
+        },
+    ];
+
+    if (result.srm) {
+        sections.push({
+            heading: 'Sample Ratio Check',
+            blocks: [
+                { kind: 'items', items: [['SRM p-value', pValue(result.srm.pValue)]] },
+                result.srm.isMismatch
+                    ? { kind: 'text', tone: 'warning', text: 'Sample Ratio Mismatch detected: traffic was not split as intended, so the results below may be invalid.' }
+                    : { kind: 'text', text: 'The observed split matches the expected allocation.' },
+            ],
+        });
+    }
+
+    result.variantResults.forEach((variant, i) => {
+        const items: [string, string][] = [
+            ['Uplift', percent(variant.uplift)],
+            [`${request.confidenceLevel}% CI for uplift`, interval(variant.upliftInterval)],
+            ['Absolute difference', `${percent(variant.absoluteDifference)} (${interval(variant.absoluteInterval)})`],
+            ['Confidence', percent(variant.confidence)],
+            ['P-value', `${pValue(variant.pValue)} (${TEST_METHOD_LABELS[variant.testMethod]})`],
+        ];
+        if (result.variantResults.length > 1) items.push(['Adjusted p-value', pValue(variant.adjustedPValue)]);
+
+        const decision = result.sequential?.decisions[i];
+        if (!decision && variant.directionalEffect > 0 && variant.additionalDaysNeeded !== null && variant.additionalDaysNeeded !== 0) {
+            items.push(['Additional days needed', `${variant.additionalDaysNeeded} days`]);
+            if (variant.projectedTotalDuration !== null) items.push(['Projected total test duration', `${variant.projectedTotalDuration} days`]);
+        }
+
+        const verdict: ReportBlock = decision
+            ? { kind: 'text', text: decisionText[decision.decision], tone: decision.decision === 'efficacy' ? 'positive' : decision.decision === 'futility' ? 'negative' : undefined }
+            : { kind: 'text', text: verdictText(request.hypothesis, variant.isSignificant, request.margin), tone: variant.isSignificant ? 'positive' : 'negative' };
+        sections.push({ heading: `${armName(i + 1)} vs Control (A)`, blocks: [{ kind: 'items', items }, verdict] });
+    });
+
+    if (result.cuped) {
+        sections.push({
+            heading: 'CUPED-adjusted Results',
+            blocks: [
+                { kind: 'text', text: `Adjusted for a pre-period covariate: ${cupedText(result.cuped)}. The results above are unadjusted.` },
+                {
+                    kind: 'table',
+                    headers: ['Arm', 'Absolute difference', `${request.confidenceLevel}% CI`, 'Uplift', `${request.confidenceLevel}% CI for uplift`, 'P-value', 'Significant'],
+                    rows: result.cuped.variantResults.map((variant, i) => [
+                        armName(i + 1),
+                        percent(variant.absoluteDifference),
+                        interval(variant.absoluteInterval),
+                        percent(variant.uplift),
+                        interval(variant.upliftInterval),
+                        pValue(request.variants.length > 1 ? variant.adjustedPValue : variant.pValue),
+                        variant.isSignificant ? 'Yes' : 'No',
+                    ]),
+                },
+            ],
+        });
+    }
+
+    if (result.sequential) {
+        const { fractions, boundaries, look } = result.sequential;
+        sections.push({
+            heading: 'Sequential Boundaries',
+            blocks: [
+                { kind: 'text', text: `Nominal p-values are not valid under repeated looks; decisions use the efficacy boundaries. Current look: ${look}.` },
+                { kind: 'table', headers: ['Look', 'Information', 'Efficacy boundary (Z)'], rows: boundaries.map((boundary, k) => [String(k + 1), percent(fractions[k]), boundary.toFixed(3)]) },
+            ],
+        });
+    }
+
+    return { title: 'A/B Test Report', generatedAt, sections, charts };
+};
+
+/** Report of a test plan: parameters and the MDE or power table, or the required sample size. */
+export const planningReport = (request: PreTestAnalysisRequest, result: PreTestAnalysisResponse, charts: ReportChart[] = [], generatedAt = new Date()): Report => {
+    const isContinuous = request.metricType === 'continuous';
+    const parameters: [string, string][] = [
+        ['Metric', isContinuous ? 'Continuous (e.g. revenue per visitor)' : 'Conversion rate'],
+        ['Weekly traffic', count(request.weeklyTraffic)],
+        ...(isContinuous
+            ? [['Baseline mean', String(request.baselineMean)], ['Baseline standard deviation', String(request.baselineSd)]] as [string, string][]
+            : [['Weekly conversions', count(request.weeklyConversions)], ['Baseline conversion rate', percent(request.weeklyConversions / request.weeklyTraffic)]] as [string, string][]),
+        ['Confidence level', `${request.confidence}%`],
+        ['Statistical power', `${request.power}%`],
+        hypothesisItem(request.hypothesis, request.margin),
+        ['Arms', String(request.arms)],
+        ['Traffic split', request.allocation.map(share => `${(share * 100).toFixed(1)}%`).join(' / ')],
+        ['Traffic in experiment', `${request.exposure}%`],
+    ];
+    if (result.solveFor !== 'mde') parameters.push(['Target MDE', `${request.targetMde}%`]);
+    if (result.solveFor !== 'duration') parameters.push(['Durations', `${request.minWeeks} to ${request.maxWeeks} weeks`]);
+    if (request.covariateCorrelation !== null && result.varianceReduction !== null) {
+        parameters.push(['Variance reduction (CUPED)', cupedText({ source: 'correlation', correlation: request.covariateCorrelation, varianceReduction: result.varianceReduction })]);
+    }
+
+    const sections: ReportSection[] = [{ heading: 'Parameters', blocks: [{ kind: 'items', items: parameters }] }];
+
+    if (result.solveFor === 'duration') {
+        const requirement = result.requirement;
+        sections.push({
+            heading: 'Required Sample Size',
+            blocks: requirement
+                ? [{
+                    kind: 'items',
+                    items: [
+                        ['Visitors in experiment', count(requirement.requiredTotal)],
+                        ...requirement.perArm.map((visitors, i): [string, string] => [armName(i), count(visitors)]),
+                        ['Test duration', `${requirement.days} days (${(requirement.days / 7).toFixed(1)} weeks)`],
+                        ...(requirement.cuped ? [
+                            ['Visitors with CUPED', count(requirement.cuped.requiredTotal)],
+                            ['Test duration with CUPED', `${requirement.cuped.days} days (${(requirement.cuped.days / 7).toFixed(1)} weeks)`],
+                        ] as [string, string][] : []),
+                    ],
+                }]
+                : [{ kind: 'text', tone: 'warning', text: `A ${request.targetMde}% change cannot be detected with these inputs.` }],
+        });
+    } else {
+        const isPower = result.solveFor === 'power';
+        const hasCuped = result.varianceReduction !== null;
+        const cupedCell = (value: number | null | undefined) => (isPower ? percent(value) : value === null || value === undefined ? 'N/A' : `${value} days`);
+        sections.push({
+            heading: isPower ? 'Achieved Statistical Power' : 'Minimum Detectable Effect (MDE)',
+            blocks: [{
+                kind: 'table',
+                headers: ['Test Duration', isPower ? 'Power' : 'Minimum Detectable Effect', ...(hasCuped ? [isPower ? 'Power with CUPED' : 'Reached with CUPED in'] : [])],
+                rows: result.durationResults.map(row => [`${row.weeks} week${row.weeks > 1 ? 's' : ''}`, percent(row.value), ...(hasCuped ? [cupedCell(row.cuped)] : [])]),
+            }],
+        });
+    }
+
+    return { title: 'A/B Test Plan', generatedAt, sections, charts };
+};
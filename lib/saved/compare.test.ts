@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { compareSavedExperiments, savedMetrics, SavedMetric } from './compare';
+import { createSavedExperiment } from './library';
+
+const now = new Date('2024-06-01T12:00:00Z');
+const entry = (name: string, inputs: Record<string, string>) => createSavedExperiment(name, inputs, now);
+
+const checkout = entry('Checkout CTA', { mode: 'test-analysis', visitorsA: '1000', conversionsA: '100', visitorsB: '1000', conversionsB: '130' });
+const pricing = entry('Pricing page', { mode: 'pre-test-analysis', weeklyTraffic: '10000', weeklyConversions: '500', solveFor: 'duration', targetMde: '10' });
+const banner = entry('Banner', { mode: 'bayesian-analysis', visitorsA: '1000', conversionsA: '100', visitorsB: '1000', conversionsB: '130', priorAlpha: '1', priorBeta: '1' });
+const basket = entry('Basket size', { mode: 'continuous-analysis', meanA: '4', sdA: '10', nA: '5000', meanB: '4.5', sdB: '10', nB: '5000', confidenceLevel: '95' });
+
+const labels = (metrics: SavedMetric[] | null) => metrics?.map(metric => metric.label);
+const value = (metrics: SavedMetric[] | null, label: string) => metrics?.find(metric => metric.label === label)?.value;
+
+describe('savedMetrics', () => {
+    it('lists rates, uplift, p-value and significance of every variation', () => {
+        const metrics = savedMetrics(checkout);
+        expect(labels(metrics)).toEqual(['Control conversion rate', 'B conversion rate', 'B uplift', 'B p-value', 'B significant', 'SRM p-value']);
+        expect(value(metrics, 'B uplift')).toBeCloseTo(0.3, 10);
+        expect(value(metrics, 'B significant')).toBe('Yes');
+    });
+
+    it('adds the CUPED p-value when a covariate correlation was saved', () => {
+        const metrics = savedMetrics({ ...checkout, inputs: { ...checkout.inputs, covariateCorrelation: '0.5' } });
+        expect(value(metrics, 'B p-value (CUPED)')).toBeLessThan(value(metrics, 'B p-value') as number);
+    });
+
+    it('judges saved sequential tests by their boundaries', () => {
+        const metrics = savedMetrics({ ...checkout, inputs: { ...checkout.inputs, analysisType: 'sequential', spending: 'obrien-fleming', plannedLooks: '5', currentLook: '1' } });
+        expect(labels(metrics)).toEqual(['Control conversion rate', 'B conversion rate', 'B uplift', 'B p-value (nominal)', 'B sequential decision', 'SRM p-value']);
+        expect(value(metrics, 'B sequential decision')).toBe('Continue');
+    });
+
+    it('uses per-user CUPED data when it adds up to the entered counts', () => {
+        // The same pre-period values in both arms, partly predicting who converts
+        const rows = (arm: string, users: number, conversions: number) => Array.from({ length: users }, (_, i) => `${arm},${Number(i < 100 || i % 7 === 0)},${Number(i < conversions)}`);
+        const cupedData = [...rows('A', 1000, 100), ...rows('B', 1000, 130)].join('\n');
+        const matching = savedMetrics({ ...checkout, inputs: { ...checkout.inputs, cupedData } });
+        expect(value(matching, 'B p-value (CUPED)')).toBeLessThan(value(matching, 'B p-value') as number);
+
+        const other = savedMetrics({ ...checkout, inputs: { ...checkout.inputs, covariateCorrelation: '0.5', cupedData: 'A,0,1\nA,1,0\nB,0,1\nB,1,1' } });
+        expect(labels(other)).not.toContain('B p-value (CUPED)');
+    });
+
+    it('lists the plan by what it solves for', () => {
+        expect(labels(savedMetrics(pricing))).toEqual(['Required sample (total)', 'Days needed']);
+        const cuped = savedMetrics({ ...pricing, inputs: { ...pricing.inputs, covariateCorrelation: '0.5' } });
+        expect(value(cuped, 'Days needed (CUPED)')).toBeLessThan(value(cuped, 'Days needed') as number);
+
+        const byWeek = savedMetrics(entry('Plan', { mode: 'pre-test-analysis', weeklyTraffic: '10000', weeklyConversions: '500', solveFor: 'power', targetMde: '10', minWeeks: '1', maxWeeks: '2' }));
+        expect(labels(byWeek)).toEqual(['Power after 1 week', 'Power after 2 weeks']);
+    });
+
+    it('accepts a continuous metric with no spread in one group, as the input checks do', () => {
+        expect(value(savedMetrics({ ...basket, inputs: { ...basket.inputs, sdA: '0' } }), 'Difference in means')).toBeCloseTo(0.5, 10);
+    });
+
+    it('recalculates Bayesian and continuous results', () => {
+        expect(labels(savedMetrics(banner))).toEqual(['Probability B beats A', 'Expected loss if shipping B', 'Relative uplift (median)']);
+        expect(value(savedMetrics(banner), 'Probability B beats A')).toBeGreaterThan(0.95);
+
+        const continuous = savedMetrics(basket);
+        expect(value(continuous, 'Difference in means')).toBeCloseTo(0.5, 10);
+        expect(value(continuous, 'Relative lift')).toBeCloseTo(0.125, 10);
+        expect(value(continuous, 'Significant')).toBe('Yes');
+    });
+
+    it('returns null for inputs that cannot be analyzed', () => {
+        expect(savedMetrics(entry('Empty', { mode: 'bayesian-analysis', visitorsA: '' }))).toBeNull();
+        expect(savedMetrics({ ...checkout, inputs: { ...checkout.inputs, conversionsB: '2000' } })).toBeNull();
+        expect(savedMetrics({ ...basket, inputs: { ...basket.inputs, sdA: '0', sdB: '0' } })).toBeNull();
+        expect(savedMetrics({ ...basket, inputs: { ...basket.inputs, sdB: '' } })).toBeNull();
+    });
+});
+
+describe('compareSavedExperiments', () => {
+    it('lines up entries of different modes, leaving metrics they do not have blank', () => {
+        const { analyzable, rows } = compareSavedExperiments([checkout, pricing, banner, basket]);
+        expect(analyzable).toEqual([true, true, true, true]);
+        const row = (label: string) => rows.find(r => r.label === label)?.values;
+        expect(row('Control conversion rate')).toEqual([0.1, undefined, undefined, undefined]);
+        expect(row('B significant')).toEqual(['Yes', undefined, undefined, undefined]);
+        expect(row('Days needed')?.[1]).toBeGreaterThan(0);
+        expect(row('Probability B beats A')?.filter(v => v !== undefined)).toHaveLength(1);
+        expect(rows.map(r => r.label).slice(0, 2)).toEqual(['Control conversion rate', 'B conversion rate']);
+    });
+
+    it('flags entries whose inputs cannot be analyzed and keeps the others', () => {
+        const empty = entry('Empty', { mode: 'bayesian-analysis', visitorsA: '' });
+        const { analyzable, rows } = compareSavedExperiments([empty, checkout]);
+        expect(analyzable).toEqual([false, true]);
+        expect(rows.every(r => r.values[0] === undefined)).toBe(true);
+        expect(rows.find(r => r.label === 'B p-value')?.format).toBe('p-value');
+    });
+});
@@ -0,0 +1,178 @@
+import { parsePreTestAnalysisRequest, runPreTestAnalysis } from '../api/preTestAnalysis';
+import { parseTestAnalysisRequest, runTestAnalysis } from '../api/testAnalysis';
+import {
+    analyzeBayesian, cupedDataMismatch, cupedFromUserData, HYPOTHESES, MAX_VARIANTS, parseCupedData, SequentialDecision, variantLabel, welchTTest,
+} from '../stats';
+import { SavedExperiment, savedMode } from './library';
+
+// Headline results of saved experiments, recalculated from their inputs for a side-by-side comparison.
+
+export type MetricFormat = 'percent' | 'p-value' | 'number' | 'text';
+
+export type SavedMetric = { label: string; value: number | string | null; format: MetricFormat };
+
+// Share link values are strings; blank means "not given" so that defaults apply
+const num = (value: string | undefined) => (value === undefined || value === '' ? undefined : Number(value));
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+const DECISION_LABELS: Record<SequentialDecision, string> = {
+    efficacy: 'Stop for efficacy',
+    futility: 'Stop for futility',
+    continue: 'Continue',
+};
+
+const testAnalysisMetrics = (inputs: Record<string, string>): SavedMetric[] | null => {
+    const arm = (label: string) => ({ visitors: num(inputs[`visitors${label}`]), conversions: num(inputs[`conversions${label}`]), allocation: num(inputs[`allocation${label}`]) });
+    const variants = [];
+    for (let i = 0; i < MAX_VARIANTS && inputs[`visitors${variantLabel(i)}`] !== undefined; i++) variants.push(arm(variantLabel(i)));
+
+    const parsed = parseTestAnalysisRequest({
+        control: arm('A'),
+        variants,
+        durationDays: num(inputs.testDuration),
+        confidenceLevel: num(inputs.confidenceLevel),
+        hypothesis: inputs.hypothesis,
+        margin: num(inputs.margin),
+        correction: inputs.correction,
+        intervalMethod: inputs.intervalMethod,
+        testMethod: inputs.testMethod,
+        covariateCorrelation: num(inputs.covariateCorrelation),
+        sequential: inputs.analysisType === 'sequential'
+            ? { spending: inputs.spending, plannedLooks: num(inputs.plannedLooks), currentLook: num(inputs.currentLook) }
+            : undefined,
+    });
+    const result = parsed.ok ? runTestAnalysis(parsed.value) : null;
+    if (!parsed.ok || !result) return null;
+
+    // As on the page, per-user data replaces the correlation, but only when it adds up to the entered counts
+    const request = parsed.value;
+    let cuped = result.cuped;
+    if (inputs.cupedData) {
+        const data = parseCupedData(inputs.cupedData);
+        const settings = { confidenceLevel: request.confidenceLevel / 100, hypothesis: request.hypothesis, margin: request.margin / 100, correction: request.correction };
+        cuped = data.errors.length === 0 && !cupedDataMismatch(data, [request.control, ...request.variants]) ? cupedFromUserData(data.arms, settings) : null;
+    }
+
+    // A sequential test is judged by its boundaries; its fixed-horizon p-value is shown as nominal only
+    const metrics: SavedMetric[] = [{ label: 'Control conversion rate', value: result.convRateA, format: 'percent' }];
+    result.variantResults.forEach((variant, i) => {
+        metrics.push(
+            { label: `${variant.label} conversion rate`, value: variant.convRateB, format: 'percent' },
+            { label: `${variant.label} uplift`, value: variant.uplift, format: 'percent' },
+        );
+        const decision = result.sequential?.decisions[i];
+        if (decision) {
+            metrics.push(
+                { label: `${variant.label} p-value (nominal)`, value: variant.adjustedPValue, format: 'p-value' },
+                { label: `${variant.label} sequential decision`, value: DECISION_LABELS[decision.decision], format: 'text' },
+            );
+        } else {
+            metrics.push(
+                { label: `${variant.label} p-value`, value: variant.adjustedPValue, format: 'p-value' },
+                { label: `${variant.label} significant`, value: yesNo(variant.isSignificant), format: 'text' },
+            );
+        }
+    });
+    cuped?.variantResults.forEach(variant => metrics.push({ label: `${variant.label} p-value (CUPED)`, value: variant.adjustedPValue, format: 'p-value' }));
+    if (result.srm) metrics.push({ label: 'SRM p-value', value: result.srm.pValue, format: 'p-value' });
+    return metrics;
+};
+
+const preTestMetrics = (inputs: Record<string, string>): SavedMetric[] | null => {
+    const parsed = parsePreTestAnalysisRequest({
+        metricType: inputs.metricType,
+        weeklyTraffic: num(inputs.weeklyTraffic),
+        weeklyConversions: num(inputs.weeklyConversions),
+        baselineMean: num(inputs.baselineMean),
+        baselineSd: num(inputs.baselineSd),
+        confidence: num(inputs.confidence),
+        power: num(inputs.power),
+        hypothesis: inputs.hypothesis,
+        margin: num(inputs.margin),
+        solveFor: inputs.solveFor,
+        arms: num(inputs.arms),
+        allocation: inputs.allocation,
+        exposure: num(inputs.exposure),
+        minWeeks: num(inputs.minWeeks),
+        maxWeeks: num(inputs.maxWeeks),
+        mdeCeiling: num(inputs.mdeCeiling),
+        targetMde: num(inputs.targetMde),
+        covariateCorrelation: num(inputs.covariateCorrelation),
+    });
+    const result = parsed.ok ? runPreTestAnalysis(parsed.value) : null;
+    if (!result) return null;
+
+    if (result.solveFor === 'duration') {
+        return [
+            { label: 'Required sample (total)', value: result.requirement?.requiredTotal ?? null, format: 'number' },
+            { label: 'Days needed', value: result.requirement?.days ?? null, format: 'number' },
+            ...(result.requirement?.cuped ? [{ label: 'Days needed (CUPED)', value: result.requirement.cuped.days, format: 'number' as const }] : []),
+        ];
+    }
+    const name = result.solveFor === 'power' ? 'Power' : 'MDE';
+    return result.durationResults.map(row => ({ label: `${name} after ${row.weeks} week${row.weeks > 1 ? 's' : ''}`, value: row.value, format: 'percent' }));
+};
+
+const bayesianMetrics = (inputs: Record<string, string>): SavedMetric[] | null => {
+    const result = analyzeBayesian({
+        control: { visitors: Number(inputs.visitorsA), conversions: Number(inputs.conversionsA) },
+        variant: { visitors: Number(inputs.visitorsB), conversions: Number(inputs.conversionsB) },
+        priorAlpha: Number(inputs.priorAlpha ?? 1),
+        priorBeta: Number(inputs.priorBeta ?? 1),
+    });
+    if (!result) return null;
+    return [
+        { label: 'Probability B beats A', value: result.probBBeatsA, format: 'percent' },
+        { label: 'Expected loss if shipping B', value: result.expectedLossB, format: 'percent' },
+        { label: 'Relative uplift (median)', value: result.upliftMedian, format: 'percent' },
+    ];
+};
+
+const continuousMetrics = (inputs: Record<string, string>): SavedMetric[] | null => {
+    const summary = (group: string) => ({ mean: Number(inputs[`mean${group}`]), sd: Number(inputs[`sd${group}`]), n: Number(inputs[`n${group}`]) });
+    const a = summary('A');
+    const b = summary('B');
+    const confidence = Number(inputs.confidenceLevel ?? 95);
+    const hypothesis = HYPOTHESES.find(choice => choice === inputs.hypothesis) ?? 'two-sided';
+    const margin = Number(inputs.margin ?? 1) / 100;
+    // The same rules as checkContinuousInputs: one standard deviation may be 0, but not both
+    const valid = [a, b].every(s => Number.isFinite(s.mean) && s.sd >= 0 && Number.isInteger(s.n) && s.n >= 2) && a.sd + b.sd > 0
+        && confidence > 0 && confidence < 100 && (hypothesis !== 'non-inferiority' || (margin > 0 && margin < 1));
+    if (!valid || ['meanA', 'sdA', 'nA', 'meanB', 'sdB', 'nB'].some(key => (inputs[key] ?? '') === '')) return null;
+
+    const result = welchTTest(a, b, 1 - confidence / 100, hypothesis, margin);
+    return [
+        { label: 'Difference in means', value: result.difference, format: 'number' },
+        { label: 'Relative lift', value: result.relativeLift, format: 'percent' },
+        { label: 'p-value', value: result.pValue, format: 'p-value' },
+        { label: 'Significant', value: yesNo(result.isSignificant), format: 'text' },
+    ];
+};
+
+/** Recalculates the headline results of a saved entry. Returns null when its inputs cannot be analyzed. */
+export const savedMetrics = (entry: SavedExperiment): SavedMetric[] | null => {
+    switch (savedMode(entry)) {
+        case 'test-analysis': return testAnalysisMetrics(entry.inputs);
+        case 'pre-test-analysis': return preTestMetrics(entry.inputs);
+        case 'bayesian-analysis': return bayesianMetrics(entry.inputs);
+        case 'continuous-analysis': return continuousMetrics(entry.inputs);
+    }
+};
+
+/** One row per metric label, in first-seen order, with a value (or undefined) for each entry. */
+export const compareSavedExperiments = (entries: SavedExperiment[]) => {
+    const results = entries.map(savedMetrics);
+    const labels: string[] = [];
+    const formats = new Map<string, MetricFormat>();
+    results.forEach(metrics => metrics?.forEach(metric => {
+        if (!formats.has(metric.label)) labels.push(metric.label);
+        formats.set(metric.label, metric.format);
+    }));
+    const rows = labels.map(label => ({
+        label,
+        format: formats.get(label) as MetricFormat,
+        values: results.map(metrics => metrics?.find(metric => metric.label === label)?.value),
+    }));
+    return { analyzable: results.map(metrics => metrics !== null), rows };
+};
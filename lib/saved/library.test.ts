@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createSavedExperiment, duplicateSavedExperiment, exportLibrary, LIBRARY_FORMAT, mergeLibrary, parseLibrary, searchSavedExperiments,
+    updateSavedExperiment,
+} from './library';
+
+const now = new Date('2024-06-01T12:00:00Z');
+const checkout = { ...createSavedExperiment('Checkout CTA', { mode: 'test-analysis', visitorsA: '1000', conversionsA: '100', visitorsB: '1000', conversionsB: '130' }, now), notes: 'Green button' };
+const pricing = createSavedExperiment('Pricing page', { mode: 'pre-test-analysis', weeklyTraffic: '10000', weeklyConversions: '500', solveFor: 'duration', targetMde: '10' }, now);
+
+describe('library operations', () => {
+    it('duplicates under a name that is not taken', () => {
+        const copy = duplicateSavedExperiment(checkout, [checkout], now);
+        expect(copy.id).not.toBe(checkout.id);
+        expect(copy.name).toBe('Checkout CTA (copy)');
+        expect(duplicateSavedExperiment(checkout, [checkout, copy], now).name).toBe('Checkout CTA (copy 2)');
+    });
+
+    it('updates details and the modification time', () => {
+        const renamed = updateSavedExperiment(checkout, { name: 'Checkout button' }, new Date('2024-06-02T00:00:00Z'));
+        expect(renamed.name).toBe('Checkout button');
+        expect(renamed.updatedAt).toBe('2024-06-02T00:00:00.000Z');
+        expect(renamed.inputs).toEqual(checkout.inputs);
+    });
+
+    it('searches names, hypotheses and notes for every word', () => {
+        expect(searchSavedExperiments([checkout, pricing], 'green CHECKOUT')).toEqual([checkout]);
+        expect(searchSavedExperiments([checkout, pricing], '  ')).toEqual([checkout, pricing]);
+        expect(searchSavedExperiments([checkout, pricing], 'checkout pricing')).toEqual([]);
+    });
+});
+
+describe('export and import', () => {
+    it('round-trips the library', () => {
+        expect(parseLibrary(exportLibrary([checkout, pricing]))).toEqual({ experiments: [checkout, pricing], issues: [] });
+    });
+
+    it('skips invalid entries and rejects other files', () => {
+        const text = JSON.stringify({ format: LIBRARY_FORMAT, version: 1, experiments: [checkout, { id: 'x', name: 'No inputs' }] });
+        expect(parseLibrary(text)).toEqual({
+            experiments: [checkout],
+            issues: [{ field: 'experiments[1].inputs', message: 'Must hold the calculator inputs, including a valid mode.' }],
+        });
+        expect(parseLibrary('[]').issues[0].message).toBe('This is not an exported experiment library.');
+    });
+
+    it('keeps the most recently updated copy of the same entry', () => {
+        const newer = updateSavedExperiment(checkout, { notes: 'Edited elsewhere' }, new Date('2024-07-01T00:00:00Z'));
+        expect(mergeLibrary([checkout], [newer, pricing])).toEqual([newer, pricing]);
+        expect(mergeLibrary([newer], [checkout])).toEqual([newer]);
+    });
+});
@@ -0,0 +1,128 @@
+import { isObject, ValidationIssue } from '../api/validation';
+import { SAVED_MODES, SavedMode } from '../share/shareLink';
+
+// A library of named, saved calculator inputs that can be searched, compared and moved between machines as JSON.
+
+/** Marks exported files so that other JSON is not imported by mistake. */
+export const LIBRARY_FORMAT = 'ab-test-calculator-library';
+export const LIBRARY_VERSION = 1;
+
+export type SavedExperiment = {
+    id: string;
+    name: string;
+    /** What the experiment was expected to show, in the team's own words. */
+    hypothesis: string;
+    notes: string;
+    /** Start and end of the experiment as YYYY-MM-DD; blank when unknown. */
+    startDate: string;
+    endDate: string;
+    /** ISO timestamps. */
+    createdAt: string;
+    updatedAt: string;
+    /** Calculator inputs in share link form, `mode` included (e.g. `{ mode: 'test-analysis', visitorsA: '1000', ... }`). */
+    inputs: Record<string, string>;
+};
+
+/** Fields that can be edited after saving. */
+export type SavedDetails = Pick<SavedExperiment, 'name' | 'hypothesis' | 'notes' | 'startDate' | 'endDate'>;
+
+export const savedMode = (entry: SavedExperiment): SavedMode =>
+    (SAVED_MODES as readonly string[]).includes(entry.inputs.mode) ? (entry.inputs.mode as SavedMode) : 'test-analysis';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createSavedExperiment = (name: string, inputs: Record<string, string>, now = new Date()): SavedExperiment => ({
+    id: newId(),
+    name: name.trim() || 'Untitled experiment',
+    hypothesis: '',
+    notes: '',
+    startDate: '',
+    endDate: '',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    inputs: { ...inputs },
+});
+
+export const updateSavedExperiment = (entry: SavedExperiment, changes: Partial<SavedDetails> & { inputs?: Record<string, string> }, now = new Date()): SavedExperiment => ({
+    ...entry,
+    ...changes,
+    updatedAt: now.toISOString(),
+});
+
+// Copies get a fresh id and a name that is not taken yet: "Checkout (copy)", "Checkout (copy 2)", ...
+export const duplicateSavedExperiment = (entry: SavedExperiment, library: SavedExperiment[], now = new Date()): SavedExperiment => {
+    const names = new Set(library.map(other => other.name));
+    let name = `${entry.name} (copy)`;
+    for (let n = 2; names.has(name); n++) name = `${entry.name} (copy ${n})`;
+    return { ...entry, id: newId(), name, inputs: { ...entry.inputs }, createdAt: now.toISOString(), updatedAt: now.toISOString() };
+};
+
+// Case-insensitive match of every word in the query against the name, hypothesis and notes.
+export const searchSavedExperiments = (library: SavedExperiment[], query: string): SavedExperiment[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(word => word !== '');
+    if (words.length === 0) return library;
+    return library.filter(entry => {
+        const text = `${entry.name}\n${entry.hypothesis}\n${entry.notes}`.toLowerCase();
+        return words.every(word => text.includes(word));
+    });
+};
+
+export const exportLibrary = (library: SavedExperiment[]): string =>
+    `${JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION, experiments: library }, null, 2)}\n`;
+
+const readText = (item: Record<string, unknown>, key: string) => (typeof item[key] === 'string' ? (item[key] as string) : '');
+
+// Reads a file written by exportLibrary. Entries with problems are reported and left out; the rest are kept.
+export const parseLibrary = (text: string): { experiments: SavedExperiment[]; issues: ValidationIssue[] } => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { experiments: [], issues: [{ field: '', message: 'The file is not valid JSON.' }] };
+    }
+    if (!isObject(data) || data.format !== LIBRARY_FORMAT || !Array.isArray(data.experiments)) {
+        return { experiments: [], issues: [{ field: '', message: 'This is not an exported experiment library.' }] };
+    }
+    if (typeof data.version !== 'number' || data.version > LIBRARY_VERSION) {
+        return { experiments: [], issues: [{ field: 'version', message: 'The library was exported by a newer version of the calculator.' }] };
+    }
+
+    const experiments: SavedExperiment[] = [];
+    const issues: ValidationIssue[] = [];
+    data.experiments.forEach((item, i) => {
+        const field = `experiments[${i}]`;
+        if (!isObject(item) || typeof item.id !== 'string' || typeof item.name !== 'string') {
+            issues.push({ field, message: 'Each experiment needs an id and a name.' });
+            return;
+        }
+        const inputs = isObject(item.inputs) ? item.inputs : null;
+        if (!inputs || !Object.values(inputs).every(value => typeof value === 'string') || !(SAVED_MODES as readonly unknown[]).includes(inputs.mode)) {
+            issues.push({ field: `${field}.inputs`, message: 'Must hold the calculator inputs, including a valid mode.' });
+            return;
+        }
+        const createdAt = readText(item, 'createdAt') || new Date(0).toISOString();
+        experiments.push({
+            id: item.id,
+            name: item.name,
+            hypothesis: readText(item, 'hypothesis'),
+            notes: readText(item, 'notes'),
+            startDate: readText(item, 'startDate'),
+            endDate: readText(item, 'endDate'),
+            createdAt,
+            updatedAt: readText(item, 'updatedAt') || createdAt,
+            inputs: inputs as Record<string, string>,
+        });
+    });
+    return { experiments, issues };
+};
+
+// Imported entries are added; when an id is already in the library, the more recently updated copy wins.
+export const mergeLibrary = (library: SavedExperiment[], imported: SavedExperiment[]): SavedExperiment[] => {
+    const merged = [...library];
+    imported.forEach(entry => {
+        const index = merged.findIndex(existing => existing.id === entry.id);
+        if (index === -1) merged.push(entry);
+        else if (entry.updatedAt > merged[index].updatedAt) merged[index] = entry;
+    });
+    return merged;
+};
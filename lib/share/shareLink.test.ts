@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSharePayload, encodeSharePayload, linkInputs, parseShareInputs, readShareLink } from './shareLink';
+
+const bayesian = { mode: 'bayesian-analysis', visitorsA: '1000', conversionsA: '100', visitorsB: '1000', conversionsB: '130', priorAlpha: '1', priorBeta: '1' };
+
+describe('share payload', () => {
+    it('round-trips every input through the s parameter', () => {
+        const payload = encodeSharePayload(bayesian);
+        expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(readShareLink(new URLSearchParams({ s: payload }))).toEqual({ ok: true, value: { mode: 'bayesian-analysis', inputs: bayesian } });
+    });
+
+    it('keeps non-ASCII text intact', () => {
+        const plan = { mode: 'pre-test-analysis', allocation: '50/50 – équitable' };
+        const decoded = decodeSharePayload(encodeSharePayload(plan));
+        expect(decoded.ok && decoded.value.inputs.allocation).toBe('50/50 – équitable');
+    });
+
+    it('leaves pasted and imported data out of links', () => {
+        const continuous = { mode: 'continuous-analysis', inputMethod: 'raw', rawA: '1\n2\n3', rawB: '2\n3\n4', meanA: '2', sdA: '1', nA: '3' };
+        expect(linkInputs(continuous)).toEqual({ mode: 'continuous-analysis', inputMethod: 'summary', meanA: '2', sdA: '1', nA: '3' });
+        const decoded = decodeSharePayload(encodeSharePayload(linkInputs({ mode: 'test-analysis', visitorsA: '10', dailyData: '2024-06-01,A,10,1', segmentData: 'desktop,A,10,1', cupedData: 'A,0,1' })));
+        expect(decoded.ok && decoded.value.inputs).toMatchObject({ visitorsA: '10', dailyData: '', segmentData: '', cupedData: '' });
+    });
+
+    it('explains damaged links and links from newer versions', () => {
+        expect(decodeSharePayload('not*base64')).toEqual({ ok: false, issues: [{ field: 's', message: 'The link is damaged or incomplete. Ask for a new link.' }] });
+        const future = Buffer.from(JSON.stringify({ v: 99, mode: 'test-analysis' })).toString('base64url');
+        expect(decodeSharePayload(future).ok).toBe(false);
+    });
+});
+
+describe('parseShareInputs', () => {
+    it('fills missing settings with defaults instead of blanks', () => {
+        const parsed = parseShareInputs({ mode: 'test-analysis', visitorsA: '1000', conversionsA: '100', visitorsB: '1000', conversionsB: '120' });
+        expect(parsed.ok && parsed.value.inputs).toMatchObject({ confidenceLevel: '95', correction: 'holm', margin: '1', plannedLooks: '5', allocationB: '', testDuration: '' });
+    });
+
+    it('reads every variation of a legacy link and ignores unrelated parameters', () => {
+        const link = readShareLink(new URLSearchParams('mode=test-analysis&visitorsA=10&conversionsA=1&visitorsB=10&conversionsB=2&visitorsC=10&conversionsC=3&utm_source=mail'));
+        expect(link?.ok && Object.keys(link.value.inputs).filter(key => key.startsWith('visitors'))).toEqual(['visitorsA', 'visitorsB', 'visitorsC']);
+        expect(link?.ok && link.value.inputs.utm_source).toBeUndefined();
+    });
+
+    it('reports invalid values by field', () => {
+        expect(parseShareInputs({ mode: 'pre-test-analysis', weeklyTraffic: 'lots', solveFor: 'budget' })).toEqual({
+            ok: false,
+            issues: [
+                { field: 'weeklyTraffic', message: '"lots" is not a number.' },
+                { field: 'solveFor', message: 'Must be one of: mde, duration, power.' },
+            ],
+        });
+        expect(parseShareInputs({ mode: 'magic' }).ok).toBe(false);
+    });
+
+    it('returns null for URLs without shared inputs', () => {
+        expect(readShareLink(new URLSearchParams('utm_source=mail'))).toBeNull();
+    });
+});
@@ -0,0 +1,194 @@
+import { isObject, Validated, ValidationIssue } from '../api/validation';
+import {
+    ANALYSIS_TYPES, CORRECTIONS, HYPOTHESES, INTERVAL_METHODS, MAX_VARIANTS, METRIC_TYPES, SOLVE_FOR, SPENDING_FUNCTIONS, TEST_METHOD_CHOICES, variantLabel,
+} from '../stats';
+
+// Share links: every input of one calculator mode, as versioned base64url JSON in the `s` query parameter.
+// Links from before the payload existed carried the same inputs as plain query parameters and still open.
+
+export const SHARE_VERSION = 1;
+
+/** The calculator modes, each with its own inputs. */
+export const SAVED_MODES = ['test-analysis', 'pre-test-analysis', 'bayesian-analysis', 'continuous-analysis'] as const;
+export type SavedMode = (typeof SAVED_MODES)[number];
+
+/** Inputs of one mode as the page's form values, e.g. `{ mode: 'test-analysis', visitorsA: '1000', ... }`. */
+export type ShareInputs = Record<string, string>;
+
+export type SharedState = { mode: SavedMode; inputs: ShareInputs };
+
+type FieldRule = { fallback: string; choices?: readonly string[]; text?: boolean };
+
+const number = (fallback = ''): FieldRule => ({ fallback });
+const text = (): FieldRule => ({ fallback: '', text: true });
+const choice = (choices: readonly string[], fallback: string): FieldRule => ({ fallback, choices });
+
+// Every setting of each mode with the value it has in a fresh calculator. Test Analysis arms are added separately.
+const FIELDS: Record<SavedMode, Record<string, FieldRule>> = {
+    'test-analysis': {
+        visitorsA: number(),
+        conversionsA: number(),
+        allocationA: number(),
+        correction: choice(CORRECTIONS, 'holm'),
+        confidenceLevel: number('95'),
+        intervalMethod: choice(INTERVAL_METHODS, 'wilson'),
+        testMethod: choice(TEST_METHOD_CHOICES, 'z-test'),
+        hypothesis: choice(HYPOTHESES, 'two-sided'),
+        margin: number('1'),
+        analysisType: choice(ANALYSIS_TYPES, 'fixed-horizon'),
+        spending: choice(SPENDING_FUNCTIONS, 'obrien-fleming'),
+        plannedLooks: number('5'),
+        currentLook: number('1'),
+        testDuration: number(),
+        averageOrderValue: number(),
+        monthlyTraffic: number(),
+        rolloutMonths: number('12'),
+        covariateCorrelation: number(),
+        dailyData: text(),
+        segmentData: text(),
+        cupedData: text(),
+    },
+    'pre-test-analysis': {
+        metricType: choice(METRIC_TYPES, 'conversion'),
+        weeklyTraffic: number(),
+        weeklyConversions: number(),
+        baselineMean: number(),
+        baselineSd: number(),
+        confidence: number('95'),
+        power: number('80'),
+        hypothesis: choice(HYPOTHESES, 'two-sided'),
+        margin: number('1'),
+        solveFor: choice(SOLVE_FOR, 'mde'),
+        arms: number('2'),
+        allocation: text(),
+        exposure: number('100'),
+        minWeeks: number('1'),
+        maxWeeks: number('6'),
+        mdeCeiling: number('500'),
+        targetMde: number('5'),
+        powerCurveWeeks: number('4'),
+        covariateCorrelation: number(),
+    },
+    'bayesian-analysis': {
+        visitorsA: number(),
+        conversionsA: number(),
+        visitorsB: number(),
+        conversionsB: number(),
+        priorAlpha: number('1'),
+        priorBeta: number('1'),
+    },
+    'continuous-analysis': {
+        inputMethod: choice(['summary', 'raw'], 'summary'),
+        rawA: text(),
+        rawB: text(),
+        hypothesis: choice(HYPOTHESES, 'two-sided'),
+        margin: number('1'),
+        meanA: number(),
+        sdA: number(),
+        nA: number(),
+        meanB: number(),
+        sdB: number(),
+        nB: number(),
+        confidenceLevel: number('95'),
+    },
+};
+
+// Variations B, C, ... of Test Analysis: as many as have visitors or conversions, and at least one
+const variantFields = (raw: Record<string, unknown>): Record<string, FieldRule> => {
+    const fields: Record<string, FieldRule> = {};
+    for (let i = 0; i < MAX_VARIANTS; i++) {
+        const label = variantLabel(i);
+        if (i > 0 && raw[`visitors${label}`] === undefined && raw[`conversions${label}`] === undefined) break;
+        fields[`visitors${label}`] = number();
+        fields[`conversions${label}`] = number();
+        fields[`allocation${label}`] = number();
+    }
+    return fields;
+};
+
+/**
+ * Validates the inputs of a link, saved experiment or payload and fills in missing settings with their defaults.
+ * Unknown keys (such as tracking parameters added to a link) are ignored.
+ */
+export const parseShareInputs = (raw: Record<string, unknown>): Validated<SharedState> => {
+    if (!(SAVED_MODES as readonly unknown[]).includes(raw.mode)) {
+        return { ok: false, issues: [{ field: 'mode', message: `Unknown calculator mode${typeof raw.mode === 'string' ? ` "${raw.mode}"` : ''}.` }] };
+    }
+    const mode = raw.mode as SavedMode;
+    const fields = mode === 'test-analysis' ? { ...FIELDS[mode], ...variantFields(raw) } : FIELDS[mode];
+
+    const issues: ValidationIssue[] = [];
+    const inputs: ShareInputs = { mode };
+    Object.entries(fields).forEach(([key, rule]) => {
+        const value = raw[key];
+        if (value === undefined || value === null) {
+            inputs[key] = rule.fallback;
+        } else if (typeof value !== 'string' && !(typeof value === 'number' && Number.isFinite(value))) {
+            issues.push({ field: key, message: 'Must be text or a number.' });
+        } else if (rule.choices && !rule.choices.includes(String(value))) {
+            issues.push({ field: key, message: `Must be one of: ${rule.choices.join(', ')}.` });
+        } else if (!rule.choices && !rule.text && String(value).trim() !== '' && !Number.isFinite(Number(value))) {
+            issues.push({ field: key, message: `"${value}" is not a number.` });
+        } else {
+            inputs[key] = String(value).trim();
+        }
+    });
+
+    if (issues.length > 0) return { ok: false, issues };
+    return { ok: true, value: { mode, inputs } };
+};
+
+const toBase64Url = (text: string) => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+/**
+ * Pasted or imported datasets, which can run to many thousands of lines: saved experiments keep them, but links leave
+ * them out. Continuous links then carry the summary statistics computed from the raw values instead.
+ */
+export const LINK_OMITTED_FIELDS = ['dailyData', 'segmentData', 'cupedData', 'rawA', 'rawB'] as const;
+
+/** The inputs a link carries: every setting except the datasets of `LINK_OMITTED_FIELDS`. */
+export const linkInputs = (inputs: ShareInputs): ShareInputs => {
+    const carried = { ...inputs };
+    LINK_OMITTED_FIELDS.forEach(field => delete carried[field]);
+    if (carried.inputMethod !== undefined) carried.inputMethod = 'summary';
+    return carried;
+};
+
+/** The `s` parameter for a set of inputs. */
+export const encodeSharePayload = (inputs: ShareInputs): string => toBase64Url(JSON.stringify({ v: SHARE_VERSION, ...inputs }));
+
+export const decodeSharePayload = (payload: string): Validated<SharedState> => {
+    let data: unknown;
+    try {
+        data = JSON.parse(fromBase64Url(payload));
+    } catch {
+        return { ok: false, issues: [{ field: 's', message: 'The link is damaged or incomplete. Ask for a new link.' }] };
+    }
+    if (!isObject(data) || typeof data.v !== 'number') {
+        return { ok: false, issues: [{ field: 's', message: 'The link is damaged or incomplete. Ask for a new link.' }] };
+    }
+    if (data.v > SHARE_VERSION) {
+        return { ok: false, issues: [{ field: 'v', message: 'The link was made by a newer version of the calculator. Reload the page and try again.' }] };
+    }
+    return parseShareInputs(data);
+};
+
+/** Reads shared inputs from a page URL; null when the URL does not carry any. */
+export const readShareLink = (params: URLSearchParams): Validated<SharedState> | null => {
+    const payload = params.get('s');
+    if (payload !== null) return decodeSharePayload(payload);
+    if (params.has('mode')) return parseShareInputs(Object.fromEntries(params));
+    return null;
+};
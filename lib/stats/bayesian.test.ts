@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBayesian } from './bayesian';
+import { standardNormalCdf } from './distributions';
+
+const input = {
+    control: { visitors: 1000, conversions: 100 },
+    variant: { visitors: 1000, conversions: 130 },
+    priorAlpha: 1,
+    priorBeta: 1,
+};
+
+describe('analyzeBayesian', () => {
+    it('uses the conjugate Beta posterior', () => {
+        const result = analyzeBayesian(input)!;
+        expect(result.posteriorMeanA).toBeCloseTo(101 / 1002, 12);
+        expect(result.posteriorMeanB).toBeCloseTo(131 / 1002, 12);
+    });
+
+    it('agrees with the normal approximation of P(B > A)', () => {
+        const result = analyzeBayesian(input)!;
+        const variance = (mean: number) => (mean * (1 - mean)) / 1003;
+        const approx = standardNormalCdf((result.posteriorMeanB - result.posteriorMeanA) / Math.sqrt(variance(result.posteriorMeanA) + variance(result.posteriorMeanB)));
+        expect(result.probBBeatsA).toBeCloseTo(approx, 2);
+    });
+
+    it('is reproducible for the same inputs', () => {
+        expect(analyzeBayesian(input)).toEqual(analyzeBayesian(input));
+    });
+
+    it('rejects an invalid prior', () => {
+        expect(analyzeBayesian({ ...input, priorAlpha: 0 })).toBeNull();
+    });
+});
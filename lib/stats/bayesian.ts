@@ -0,0 +1,72 @@
+import { createRandom, sampleBeta } from './random';
+
+// Bayesian A/B analysis with Beta-Binomial conjugate posteriors and seeded Monte Carlo draws.
+
+export const BAYESIAN_SAMPLES = 50000;
+export const BAYESIAN_SEED = 20240601;
+export const CREDIBLE_LEVEL = 0.95;
+
+export type BayesianInput = {
+    control: { visitors: number; conversions: number };
+    variant: { visitors: number; conversions: number };
+    /** Beta(alpha, beta) prior shared by both arms; Beta(1, 1) is uniform. */
+    priorAlpha: number;
+    priorBeta: number;
+};
+
+export type BayesianResult = {
+    posteriorMeanA: number;
+    posteriorMeanB: number;
+    probBBeatsA: number;
+    /** Expected conversion rate lost by shipping A (or B) if the other arm is actually better. */
+    expectedLossA: number;
+    expectedLossB: number;
+    /** Median and credible interval of the relative uplift (B - A) / A. */
+    upliftMedian: number;
+    upliftLower: number;
+    upliftUpper: number;
+};
+
+/** Returns null when the counts or the prior are invalid. */
+export const analyzeBayesian = ({ control, variant, priorAlpha: a0, priorBeta: b0 }: BayesianInput): BayesianResult | null => {
+    const { visitors: vA, conversions: cA } = control;
+    const { visitors: vB, conversions: cB } = variant;
+
+    if (!(vA > 0) || !(cA >= 0) || !(vB > 0) || !(cB >= 0) || cA > vA || cB > vB || !(a0 > 0) || !(b0 > 0)) return null;
+
+    // Beta-Binomial conjugate update
+    const alphaA = a0 + cA;
+    const betaA = b0 + vA - cA;
+    const alphaB = a0 + cB;
+    const betaB = b0 + vB - cB;
+
+    const random = createRandom(BAYESIAN_SEED);
+    const upliftSamples = new Float64Array(BAYESIAN_SAMPLES);
+    let bWins = 0;
+    let lossChoosingA = 0;
+    let lossChoosingB = 0;
+
+    for (let i = 0; i < BAYESIAN_SAMPLES; i++) {
+        const pA = sampleBeta(alphaA, betaA, random);
+        const pB = sampleBeta(alphaB, betaB, random);
+        if (pB > pA) bWins++;
+        lossChoosingA += Math.max(pB - pA, 0);
+        lossChoosingB += Math.max(pA - pB, 0);
+        upliftSamples[i] = (pB - pA) / pA;
+    }
+
+    upliftSamples.sort();
+    const tail = (1 - CREDIBLE_LEVEL) / 2;
+    const quantile = (q: number) => upliftSamples[Math.min(BAYESIAN_SAMPLES - 1, Math.floor(q * BAYESIAN_SAMPLES))];
+
+    return {
+        posteriorMeanA: alphaA / (alphaA + betaA),
+        posteriorMeanB: alphaB / (alphaB + betaB),
+        probBBeatsA: bWins / BAYESIAN_SAMPLES,
+        expectedLossA: lossChoosingA / BAYESIAN_SAMPLES,
+        expectedLossB: lossChoosingB / BAYESIAN_SAMPLES,
+        upliftMedian: quantile(0.5),
+        upliftLower: quantile(tail),
+        upliftUpper: quantile(1 - tail),
+    };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseRawValues, summarizeValues, welchTTest } from './continuous';
+
+// R's sleep data set: t.test(extra ~ group, data = sleep) gives t = -1.8608, df = 17.776,
+// p-value = 0.07939 and a 95% interval of -3.3654832 to 0.2054832 for group 1 - group 2.
+const group1 = [0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0];
+const group2 = [1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4];
+
+describe('welchTTest', () => {
+    it("matches R's Welch two-sample t-test", () => {
+        const result = welchTTest(summarizeValues(group1)!, summarizeValues(group2)!, 0.05);
+        expect(result.tScore).toBeCloseTo(1.8608, 4);
+        expect(result.degreesOfFreedom).toBeCloseTo(17.776, 3);
+        expect(result.pValue).toBeCloseTo(0.07939, 5);
+        expect(result.differenceInterval.lower).toBeCloseTo(-0.2054832, 6);
+        expect(result.differenceInterval.upper).toBeCloseTo(3.3654832, 6);
+        expect(result.isSignificant).toBe(false);
+    });
+
+    it('tests one-sided and non-inferiority alternatives', () => {
+        const [a, b] = [summarizeValues(group1)!, summarizeValues(group2)!];
+        // R: alternative = "greater" for group 2 - group 1 gives p = 0.03970
+        expect(welchTTest(a, b, 0.05, 'greater').pValue).toBeCloseTo(0.0397, 4);
+        expect(welchTTest(a, b, 0.05, 'greater').isSignificant).toBe(true);
+        expect(welchTTest(a, b, 0.05, 'less').pValue).toBeCloseTo(0.9603, 4);
+
+        // B is the same as A: non-inferiority only holds when the margin is wide enough
+        expect(welchTTest(b, b, 0.05, 'non-inferiority', 0.05).isSignificant).toBe(false);
+        expect(welchTTest(b, b, 0.05, 'non-inferiority', 0.9).isSignificant).toBe(true);
+    });
+});
+
+describe('parseRawValues', () => {
+    it('reports tokens that are not numbers with their line', () => {
+        const parsed = parseRawValues('1, 2\n3;x\n 4.5 ');
+        expect(parsed.values).toEqual([1, 2, 3, 4.5]);
+        expect(parsed.errors).toEqual(['Line 2: "x" is not a number.']);
+    });
+});
@@ -0,0 +1,77 @@
+import { studentTCdf, studentTInverseCdf } from './distributions';
+import { Interval } from './conversion';
+import { Hypothesis } from './hypothesis';
+
+// Continuous metrics (revenue per visitor, average order value, ...) compared with Welch's t-test.
+
+export type SampleSummary = { mean: number; sd: number; n: number };
+
+export type WelchResult = {
+    difference: number;
+    differenceInterval: Interval;
+    /** Relative lift (B - A) / A; NaN when the control mean is 0. */
+    relativeLift: number;
+    relativeInterval: Interval | null;
+    /** t in the direction of B - A, shifted by the margin for non-inferiority. */
+    tScore: number;
+    degreesOfFreedom: number;
+    /** P-value for the chosen alternative. */
+    pValue: number;
+    isSignificant: boolean;
+};
+
+// Parses per-user values separated by newlines, commas, semicolons or whitespace.
+export const parseRawValues = (text: string): { values: number[]; errors: string[] } => {
+    const values: number[] = [];
+    const errors: string[] = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+        line.split(/[\s,;]+/).filter(token => token !== '').forEach(token => {
+            const value = Number(token);
+            if (Number.isFinite(value)) values.push(value);
+            else errors.push(`Line ${i + 1}: "${token}" is not a number.`);
+        });
+    });
+    return { values, errors };
+};
+
+export const summarizeValues = (values: number[]): SampleSummary | null => {
+    const n = values.length;
+    if (n < 2) return null;
+    const mean = values.reduce((sum, v) => sum + v, 0) / n;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+    return { mean, sd: Math.sqrt(variance), n };
+};
+
+/**
+ * Welch's t-test of B against A. For non-inferiority, `margin` is the relative margin as a fraction of the control
+ * mean, e.g. 0.02. The intervals are two-sided at 1 - alpha whatever the hypothesis.
+ */
+export const welchTTest = (a: SampleSummary, b: SampleSummary, alpha: number, hypothesis: Hypothesis = 'two-sided', margin = 0): WelchResult => {
+    const varMeanA = a.sd ** 2 / a.n;
+    const varMeanB = b.sd ** 2 / b.n;
+    const stdError = Math.sqrt(varMeanA + varMeanB);
+    const difference = b.mean - a.mean;
+    const degreesOfFreedom = (varMeanA + varMeanB) ** 2 / (varMeanA ** 2 / (a.n - 1) + varMeanB ** 2 / (b.n - 1));
+    // Non-inferiority tests B - A > -margin × |A|, a one-sided test of the shifted difference
+    const nonInferiorityShift = hypothesis === 'non-inferiority' ? margin * Math.abs(a.mean) : 0;
+    const tScore = (difference + nonInferiorityShift) / stdError;
+    const pValue = hypothesis === 'two-sided'
+        ? 2 * (1 - studentTCdf(Math.abs(tScore), degreesOfFreedom))
+        : hypothesis === 'less' ? studentTCdf(tScore, degreesOfFreedom) : 1 - studentTCdf(tScore, degreesOfFreedom);
+    const tCritical = studentTInverseCdf(1 - alpha / 2, degreesOfFreedom);
+
+    const relativeLift = a.mean !== 0 ? difference / a.mean : NaN;
+    // Delta method for the ratio of means
+    const relativeHalfWidth = a.mean !== 0 ? tCritical * Math.sqrt(varMeanB / a.mean ** 2 + (b.mean ** 2 * varMeanA) / a.mean ** 4) : NaN;
+
+    return {
+        difference,
+        differenceInterval: { lower: difference - tCritical * stdError, upper: difference + tCritical * stdError },
+        relativeLift,
+        relativeInterval: a.mean !== 0 ? { lower: relativeLift - relativeHalfWidth, upper: relativeLift + relativeHalfWidth } : null,
+        tScore,
+        degreesOfFreedom,
+        pValue,
+        isSignificant: pValue <= alpha,
+    };
+};
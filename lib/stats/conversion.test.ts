@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { adjustPValues, analyzeTest, compareToControl, proportionInterval, sampleRatioMismatch } from './conversion';
+
+// Reference values from R: prop.test(correct = FALSE), p.adjust and chisq.test.
+
+describe('compareToControl', () => {
+    it('matches the pooled two-proportion Z-test', () => {
+        // prop.test(c(100, 130), c(1000, 1000), correct = FALSE): X-squared = 4.4215, p-value = 0.03549
+        const result = compareToControl(1000, 100, 1000, 130, 0, 0.05, 'two-sided', 0);
+        expect(result.zScore ** 2).toBeCloseTo(4.4215, 4);
+        expect(result.pValue).toBeCloseTo(0.03549, 5);
+        expect(result.uplift).toBeCloseTo(0.3, 12);
+    });
+
+    it('halves the p-value for a one-sided test in the observed direction', () => {
+        const twoSided = compareToControl(1000, 100, 1000, 130, 0, 0.05, 'two-sided', 0);
+        const greater = compareToControl(1000, 100, 1000, 130, 0, 0.05, 'greater', 0);
+        const less = compareToControl(1000, 100, 1000, 130, 0, 0.05, 'less', 0);
+        expect(greater.pValue).toBeCloseTo(twoSided.pValue / 2, 12);
+        expect(less.pValue).toBeCloseTo(1 - twoSided.pValue / 2, 12);
+    });
+});
+
+describe('proportionInterval', () => {
+    it('gives the closed-form Wilson upper bound for zero conversions', () => {
+        const z = 1.959963984540054;
+        const interval = proportionInterval(0, 10, z, 'wilson');
+        expect(interval.lower).toBe(0);
+        expect(interval.upper).toBeCloseTo(z ** 2 / (10 + z ** 2), 12);
+    });
+
+    it('matches the Agresti-Coull interval', () => {
+        // binom::binom.confint(10, 50, method = "ac"): 0.1105 to 0.3323
+        const interval = proportionInterval(10, 50, 1.959963984540054, 'agresti-coull');
+        expect(interval.lower).toBeCloseTo(0.1105, 4);
+        expect(interval.upper).toBeCloseTo(0.3323, 4);
+    });
+});
+
+describe('adjustPValues', () => {
+    const pValues = [0.01, 0.04, 0.03, 0.005];
+
+    it('matches p.adjust', () => {
+        expect(adjustPValues(pValues, 'bonferroni')).toEqual([0.04, 0.16, 0.12, 0.02]);
+        adjustPValues(pValues, 'holm').forEach((p, i) => expect(p).toBeCloseTo([0.03, 0.06, 0.06, 0.02][i], 12));
+        adjustPValues(pValues, 'benjamini-hochberg').forEach((p, i) => expect(p).toBeCloseTo([0.02, 0.04, 0.04, 0.02][i], 12));
+    });
+});
+
+describe('sampleRatioMismatch', () => {
+    it('matches a chi-square goodness-of-fit test', () => {
+        // chisq.test(c(5000, 5200)): X-squared = 3.9216, p-value = 0.04767
+        const srm = sampleRatioMismatch([5000, 5200], [undefined, undefined]);
+        expect(srm?.chiSquare).toBeCloseTo(3.9216, 4);
+        expect(srm?.pValue).toBeCloseTo(0.04767, 5);
+        expect(srm?.isMismatch).toBe(false);
+    });
+
+    it('cannot check a partially filled split', () => {
+        expect(sampleRatioMismatch([5000, 5200], [50, undefined])).toBeNull();
+    });
+});
+
+describe('analyzeTest', () => {
+    const input = {
+        control: { visitors: 1000, conversions: 100 },
+        variants: [{ visitors: 1000, conversions: 130 }, { visitors: 1000, conversions: 105 }],
+        durationDays: 14,
+        confidenceLevel: 0.95,
+        hypothesis: 'two-sided' as const,
+        margin: 0,
+        correction: 'bonferroni' as const,
+        intervalMethod: 'wilson' as const,
+    };
+
+    it('labels variations and applies the correction', () => {
+        const result = analyzeTest(input);
+        expect(result?.variantResults.map(v => v.label)).toEqual(['B', 'C']);
+        expect(result?.variantResults[0].adjustedPValue).toBeCloseTo(2 * 0.03549, 4);
+        expect(result?.variantResults[0].isSignificant).toBe(false);
+    });
+
+    it('rejects impossible counts', () => {
+        expect(analyzeTest({ ...input, control: { visitors: 100, conversions: 101 } })).toBeNull();
+        expect(analyzeTest({ ...input, confidenceLevel: 1 })).toBeNull();
+    });
+});
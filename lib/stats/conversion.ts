@@ -0,0 +1,267 @@
+import { chiSquareCdf, standardNormalInverseCdf } from './distributions';
+import { chiSquareTest, fisherExactTest, recommendTestMethod, TestMethod, TestMethodChoice, TestRecommendation } from './exact';
+import { criticalZ, Hypothesis, pValueFromZ } from './hypothesis';
+
+// Frequentist analysis of conversion rates: control (A) against one or more variations (B, C, ...).
+
+export type CorrectionMethod = 'bonferroni' | 'holm' | 'benjamini-hochberg';
+export type IntervalMethod = 'wilson' | 'agresti-coull';
+
+export const CORRECTIONS: readonly CorrectionMethod[] = ['bonferroni', 'holm', 'benjamini-hochberg'];
+export const INTERVAL_METHODS: readonly IntervalMethod[] = ['wilson', 'agresti-coull'];
+
+export type Interval = { lower: number; upper: number };
+
+/** Counts observed in one arm. `allocation` is its intended traffic weight; leave it out everywhere for an equal split. */
+export type ArmCounts = { visitors: number; conversions: number; allocation?: number };
+
+export type TestAnalysisInput = {
+    control: ArmCounts;
+    variants: ArmCounts[];
+    /** Days the test has run so far; 0 skips the additional-duration estimate. */
+    durationDays: number;
+    /** Confidence level as a fraction, e.g. 0.95. */
+    confidenceLevel: number;
+    hypothesis: Hypothesis;
+    /** Relative non-inferiority margin as a fraction, e.g. 0.02. Only used for non-inferiority. */
+    margin: number;
+    correction: CorrectionMethod;
+    intervalMethod: IntervalMethod;
+    /** Test behind the p-values; defaults to the Z-test. `auto` uses the recommended test for the counts. */
+    testMethod?: TestMethodChoice;
+};
+
+/** One variation compared with control, before any multiple-comparison correction. */
+export type Comparison = {
+    convRateB: number;
+    /** Relative change (B - A) / A. */
+    uplift: number;
+    /** Difference in the direction of the alternative, shifted by the margin for non-inferiority. */
+    directionalEffect: number;
+    absoluteDifference: number;
+    absoluteInterval: Interval;
+    /** Null when the control rate is 0. */
+    upliftInterval: Interval | null;
+    /** Pooled standard error of the difference. */
+    stdError: number;
+    /** Z statistic of the Z-test, whichever test gives the p-value; sequential boundaries apply to it. */
+    zScore: number;
+    pValue: number;
+    /** Test that gave the p-value; always the Z-test for non-inferiority. */
+    testMethod: TestMethod;
+    /** Extra days needed to detect the observed effect; 'N/A' when there is no traffic to project from. */
+    additionalDaysNeeded: number | 'N/A' | null;
+    projectedTotalDuration: number | 'N/A' | null;
+};
+
+export type VariantResult = Comparison & {
+    label: string;
+    rateInterval: Interval;
+    adjustedPValue: number;
+    /** 1 - adjusted p-value. */
+    confidence: number;
+    isSignificant: boolean;
+};
+
+export type SampleRatioMismatch = {
+    expectedShares: number[];
+    observedShares: number[];
+    chiSquare: number;
+    pValue: number;
+    isMismatch: boolean;
+};
+
+export type TestAnalysisResult = {
+    convRateA: number;
+    intervalA: Interval;
+    variantResults: VariantResult[];
+    /** Null when the intended split is only partly filled in or invalid. */
+    srm: SampleRatioMismatch | null;
+    /** Test suited to the smallest counts, whether or not it was used. */
+    recommendation: TestRecommendation;
+};
+
+export const MAX_VARIANTS = 25; // B to Z
+
+export const variantLabel = (index: number): string => String.fromCharCode(66 + index);
+
+export const SRM_THRESHOLD = 0.01;
+
+// Chi-square goodness-of-fit test of observed visitors against the intended traffic split.
+// Allocations left out everywhere mean an equal split; a partially filled split cannot be checked.
+export const sampleRatioMismatch = (visitors: number[], allocations: (number | undefined)[]): SampleRatioMismatch | null => {
+    const blank = allocations.map(a => a === undefined);
+    if (blank.some(Boolean) && !blank.every(Boolean)) return null;
+    const weights = blank.every(Boolean) ? visitors.map(() => 1) : (allocations as number[]);
+    if (weights.some(w => !(w > 0))) return null;
+
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const totalVisitors = visitors.reduce((sum, v) => sum + v, 0);
+    const expectedShares = weights.map(w => w / totalWeight);
+    const observedShares = visitors.map(v => v / totalVisitors);
+    const chiSquare = visitors.reduce((sum, observed, i) => {
+        const expected = totalVisitors * expectedShares[i];
+        return sum + (observed - expected) ** 2 / expected;
+    }, 0);
+    const pValue = 1 - chiSquareCdf(chiSquare, visitors.length - 1);
+
+    return { expectedShares, observedShares, chiSquare, pValue, isMismatch: pValue < SRM_THRESHOLD };
+};
+
+// Adjusts each p-value for the number of comparisons against control.
+export const adjustPValues = (pValues: number[], method: CorrectionMethod): number[] => {
+    const m = pValues.length;
+
+    if (method === 'bonferroni') {
+        return pValues.map(p => Math.min(1, p * m));
+    }
+
+    const order = pValues.map((_, i) => i).sort((i, j) => pValues[i] - pValues[j]);
+    const adjusted = new Array<number>(m);
+
+    if (method === 'holm') {
+        let runningMax = 0;
+        order.forEach((index, rank) => {
+            runningMax = Math.max(runningMax, Math.min(1, (m - rank) * pValues[index]));
+            adjusted[index] = runningMax;
+        });
+        return adjusted;
+    }
+
+    // Benjamini-Hochberg: step-up from the largest p-value
+    let runningMin = 1;
+    for (let rank = m - 1; rank >= 0; rank--) {
+        const index = order[rank];
+        runningMin = Math.min(runningMin, (m / (rank + 1)) * pValues[index]);
+        adjusted[index] = runningMin;
+    }
+    return adjusted;
+};
+
+// Confidence interval for a single conversion rate.
+export const proportionInterval = (conversions: number, visitors: number, z: number, method: IntervalMethod): Interval => {
+    const zSq = z ** 2;
+    if (method === 'wilson') {
+        const p = conversions / visitors;
+        const denominator = 1 + zSq / visitors;
+        const center = (p + zSq / (2 * visitors)) / denominator;
+        const halfWidth = (z / denominator) * Math.sqrt((p * (1 - p)) / visitors + zSq / (4 * visitors ** 2));
+        return { lower: Math.max(0, center - halfWidth), upper: Math.min(1, center + halfWidth) };
+    }
+    // Agresti-Coull: add z²/2 successes and failures, then use the Wald interval
+    const adjustedN = visitors + zSq;
+    const adjustedP = (conversions + zSq / 2) / adjustedN;
+    const halfWidth = z * Math.sqrt((adjustedP * (1 - adjustedP)) / adjustedN);
+    return { lower: Math.max(0, adjustedP - halfWidth), upper: Math.min(1, adjustedP + halfWidth) };
+};
+
+// One variation against control: the two-proportion Z-test, with the p-value from `method` when it is not the Z-test.
+export const compareToControl = (vA: number, cA: number, vB: number, cB: number, duration: number, alpha: number, hypothesis: Hypothesis, margin: number, method: TestMethod = 'z-test'): Comparison => {
+    const convRateA = cA / vA;
+    const convRateB = cB / vB;
+    const uplift = (convRateB - convRateA) / convRateA;
+
+    // Unpooled standard errors for the intervals; relative uplift uses the delta method
+    const zInterval = standardNormalInverseCdf(1 - alpha / 2);
+    const varA = (convRateA * (1 - convRateA)) / vA;
+    const varB = (convRateB * (1 - convRateB)) / vB;
+    const absoluteDifference = convRateB - convRateA;
+    const absoluteHalfWidth = zInterval * Math.sqrt(varA + varB);
+    const absoluteInterval: Interval = { lower: absoluteDifference - absoluteHalfWidth, upper: absoluteDifference + absoluteHalfWidth };
+    let upliftInterval: Interval | null = null;
+    if (convRateA > 0) {
+        const upliftHalfWidth = zInterval * Math.sqrt(varB / convRateA ** 2 + (convRateB ** 2 * varA) / convRateA ** 4);
+        upliftInterval = { lower: uplift - upliftHalfWidth, upper: uplift + upliftHalfWidth };
+    }
+
+    const pooledProb = (cA + cB) / (vA + vB);
+    const stdError = Math.sqrt(pooledProb * (1 - pooledProb) * (1 / vA + 1 / vB));
+
+    let pValue: number;
+    let zScore = 0;
+    let additionalDaysNeeded: number | 'N/A' | null = null;
+    let projectedTotalDuration: number | 'N/A' | null = null;
+
+    // Difference measured in the direction of the alternative; for non-inferiority it is shifted by the margin
+    const nonInferiorityShift = hypothesis === 'non-inferiority' ? margin * convRateA : 0;
+    const directionalEffect = hypothesis === 'less' ? convRateA - convRateB : convRateB - convRateA + nonInferiorityShift;
+
+    if (stdError > 0) {
+        if (hypothesis === 'non-inferiority') {
+            // Non-inferiority is tested against a shifted null, so the pooled SE does not apply
+            zScore = directionalEffect / Math.sqrt(varA + varB);
+            pValue = pValueFromZ(zScore, hypothesis);
+        } else {
+            zScore = (convRateB - convRateA) / stdError;
+            pValue = pValueFromZ(zScore, hypothesis);
+        }
+    } else {
+        // Nobody or everybody converted in both arms, so there is no difference to test
+        pValue = 1;
+    }
+
+    // The alternatives to the Z-test only test equality, not the shifted null of non-inferiority
+    const testMethod = hypothesis === 'non-inferiority' ? 'z-test' : method;
+    if (testMethod === 'fisher') pValue = fisherExactTest(vA, cA, vB, cB, hypothesis);
+    if (testMethod === 'chi-square' || testMethod === 'yates') pValue = chiSquareTest(vA, cA, vB, cB, hypothesis, testMethod === 'yates').pValue;
+
+    if (duration > 0 && convRateA > 0 && convRateA < 1 && convRateB > 0 && convRateB < 1 && directionalEffect > 0) {
+        const Z_ALPHA = criticalZ(alpha, hypothesis);
+
+        const requiredNPerVariation =
+          (2 * (Z_ALPHA ** 2) * pooledProb * (1 - pooledProb)) /
+          (directionalEffect ** 2);
+
+        const totalVisitorsPerDay = (vA + vB) / duration;
+
+        if (totalVisitorsPerDay > 0) {
+            const requiredTotalVisitors = requiredNPerVariation * 2;
+            const requiredTotalDays = Math.ceil(requiredTotalVisitors / totalVisitorsPerDay);
+            const extraDays = requiredTotalDays - duration;
+
+            additionalDaysNeeded = extraDays > 0 ? extraDays : 0;
+            projectedTotalDuration = duration + additionalDaysNeeded;
+
+        } else {
+            additionalDaysNeeded = 'N/A';
+            projectedTotalDuration = 'N/A';
+        }
+    }
+
+    return { convRateB, uplift, directionalEffect, absoluteDifference, absoluteInterval, upliftInterval, stdError, zScore, pValue, testMethod, additionalDaysNeeded, projectedTotalDuration };
+};
+
+/** Full analysis of a finished (or running) test. Returns null when the inputs cannot be analyzed. */
+export const analyzeTest = (input: TestAnalysisInput): TestAnalysisResult | null => {
+    const { control, variants, durationDays, confidenceLevel: level, hypothesis, margin, correction, intervalMethod, testMethod = 'z-test' } = input;
+    const vA = control.visitors;
+    const cA = control.conversions;
+
+    if (!(vA > 0) || !(cA >= 0) || cA > vA || !(level > 0) || !(level < 1)) return null;
+    if (hypothesis === 'non-inferiority' && (!(margin > 0) || margin >= 1)) return null;
+    if (variants.length === 0 || variants.some(({ visitors, conversions }) => !(visitors > 0) || !(conversions >= 0) || conversions > visitors)) return null;
+
+    const alpha = 1 - level;
+    const zInterval = standardNormalInverseCdf(1 - alpha / 2);
+    const convRateA = cA / vA;
+    const intervalA = proportionInterval(cA, vA, zInterval, intervalMethod);
+    const recommendation = recommendTestMethod(control, variants, hypothesis);
+    const method = testMethod === 'auto' ? recommendation.method : testMethod;
+    const comparisons = variants.map(({ visitors, conversions }) => ({
+        ...compareToControl(vA, cA, visitors, conversions, durationDays, alpha, hypothesis, margin, method),
+        rateInterval: proportionInterval(conversions, visitors, zInterval, intervalMethod),
+    }));
+    const adjustedPValues = adjustPValues(comparisons.map(c => c.pValue), correction);
+
+    const variantResults = comparisons.map((comparison, i) => {
+        const adjustedPValue = adjustedPValues[i];
+        return { ...comparison, label: variantLabel(i), adjustedPValue, confidence: 1 - adjustedPValue, isSignificant: adjustedPValue <= alpha };
+    });
+
+    const srm = sampleRatioMismatch(
+        [vA, ...variants.map(v => v.visitors)],
+        [control.allocation, ...variants.map(v => v.allocation)],
+    );
+
+    return { convRateA, intervalA, variantResults, srm, recommendation };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { compareToControl } from './conversion';
+import { cupedDataMismatch, cupedFromCorrelation, cupedFromUserData, parseCupedData } from './cuped';
+
+const settings = { confidenceLevel: 0.95, hypothesis: 'two-sided' as const, margin: 0, correction: 'holm' as const };
+
+describe('cupedFromCorrelation', () => {
+    it('narrows the unpooled interval by the square root of 1 - ρ²', () => {
+        const plain = compareToControl(10000, 1000, 10000, 1080, 0, 0.05, 'two-sided', 0);
+        const uncorrelated = cupedFromCorrelation({ visitors: 10000, conversions: 1000 }, [{ visitors: 10000, conversions: 1080 }], 0, settings);
+        expect(uncorrelated?.variantResults[0].absoluteInterval.lower).toBeCloseTo(plain.absoluteInterval.lower, 12);
+
+        const adjusted = cupedFromCorrelation({ visitors: 10000, conversions: 1000 }, [{ visitors: 10000, conversions: 1080 }], 0.6, settings);
+        const halfWidth = (plain.absoluteInterval.upper - plain.absoluteInterval.lower) / 2;
+        expect(adjusted?.varianceReduction).toBeCloseTo(0.36, 12);
+        expect(adjusted?.variantResults[0].absoluteDifference).toBeCloseTo(0.008, 12);
+        expect(adjusted?.variantResults[0].absoluteInterval.upper).toBeCloseTo(0.008 + halfWidth * 0.8, 12);
+        expect(adjusted?.variantResults[0].pValue).toBeLessThan(uncorrelated?.variantResults[0].pValue ?? 0);
+    });
+
+    it('rejects a perfect correlation', () => {
+        expect(cupedFromCorrelation({ visitors: 100, conversions: 10 }, [{ visitors: 100, conversions: 12 }], 1, settings)).toBeNull();
+    });
+});
+
+describe('cupedFromUserData', () => {
+    it('removes the variance the pre-period explains', () => {
+        // The variation adds exactly 1 to every user's pre-period value, so θ = 1 leaves no variance at all
+        const result = cupedFromUserData([{ pre: [1, 2, 3, 4], post: [1, 2, 3, 4] }, { pre: [1, 2, 3, 4], post: [2, 3, 4, 5] }], settings);
+        expect(result?.theta).toBeCloseTo(1, 12);
+        expect(result?.correlation).toBeCloseTo(10 / Math.sqrt(120), 12);
+        expect(result?.variantResults[0].absoluteDifference).toBeCloseTo(1, 12);
+        expect(result?.variantResults[0].absoluteInterval.upper).toBeCloseTo(1, 12);
+    });
+
+    it('needs a covariate that varies', () => {
+        expect(cupedFromUserData([{ pre: [1, 1], post: [0, 1] }, { pre: [1, 1], post: [1, 1] }], settings)).toBeNull();
+    });
+});
+
+describe('parseCupedData', () => {
+    it('groups users by variant in any column order', () => {
+        const parsed = parseCupedData('post,variant,pre\n0,A,2\n1,A,5\n1,B,4\n1,B,1');
+        expect(parsed.errors).toEqual([]);
+        expect(parsed.armNames).toEqual(['A', 'B']);
+        expect(parsed.arms[1]).toEqual({ pre: [4, 1], post: [1, 1] });
+    });
+
+    it('reports bad rows and arms with a single user', () => {
+        expect(parseCupedData('A,1,x').errors).toEqual(['Line 1: post "x" is not a number.']);
+        expect(parseCupedData('A,1,0\nA,2,1\nB,3,1').errors).toEqual(['Every variant needs at least two users; "B" has fewer.']);
+    });
+});
+
+describe('cupedDataMismatch', () => {
+    const parsed = parseCupedData('A,2,0\nA,5,1\nB,4,1\nB,1,1');
+
+    it('accepts data whose users and conversions match the counts', () => {
+        expect(cupedDataMismatch(parsed, [{ visitors: 2, conversions: 1 }, { visitors: 2, conversions: 2 }])).toBeNull();
+    });
+
+    it('rejects data from a different experiment', () => {
+        expect(cupedDataMismatch(parsed, [{ visitors: 2, conversions: 1 }, { visitors: 1000, conversions: 120 }]))
+            .toBe('"B" has 2 users and 2 conversions, but 1000 visitors and 120 conversions are entered for variation B.');
+        expect(cupedDataMismatch(parsed, [{ visitors: 2, conversions: 1 }])).toBe('The data has 2 variants but the test has 1 arms.');
+    });
+});
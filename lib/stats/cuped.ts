@@ -0,0 +1,199 @@
+import { standardNormalInverseCdf } from './distributions';
+import { Hypothesis, pValueFromZ } from './hypothesis';
+import { adjustPValues, ArmCounts, CorrectionMethod, Interval, MAX_VARIANTS, variantLabel } from './conversion';
+import { readTable } from './table';
+
+// CUPED (Controlled-experiment Using Pre-Experiment Data): the metric is adjusted by a pre-period covariate,
+// which removes the share ρ² of its variance, where ρ is their correlation.
+
+/** Where the adjustment comes from: a correlation known from earlier tests, or per-user pre and post values. */
+export type CupedSource = 'correlation' | 'user-data';
+
+/** One variation against control after the adjustment. */
+export type CupedComparison = {
+    label: string;
+    absoluteDifference: number;
+    absoluteInterval: Interval;
+    /** Relative change against the adjusted control mean. */
+    uplift: number;
+    /** Null when the adjusted control mean is not positive. */
+    upliftInterval: Interval | null;
+    zScore: number;
+    pValue: number;
+    adjustedPValue: number;
+    /** 1 - adjusted p-value. */
+    confidence: number;
+    isSignificant: boolean;
+};
+
+export type CupedAnalysis = {
+    source: CupedSource;
+    /** Correlation between the covariate and the metric: as entered, or estimated from the users. */
+    correlation: number;
+    /** Share of the variance removed, ρ². */
+    varianceReduction: number;
+    /** Slope θ of the metric on the covariate; null when only a correlation was given. */
+    theta: number | null;
+    variantResults: CupedComparison[];
+};
+
+export type CupedSettings = {
+    /** Confidence level as a fraction, e.g. 0.95. */
+    confidenceLevel: number;
+    hypothesis: Hypothesis;
+    /** Relative non-inferiority margin as a fraction. Only used for non-inferiority. */
+    margin: number;
+    correction: CorrectionMethod;
+};
+
+/** Pre-period covariate and in-test metric of every user in one arm. */
+export type CupedArm = { pre: number[]; post: number[] };
+
+/** Correlation must be strictly between -1 and 1; at ±1 the adjustment would remove all variance. */
+export const isValidCorrelation = (correlation: number) => correlation > -1 && correlation < 1;
+
+// Mean of each arm's adjusted metric and the variance of that mean
+type Moments = { mean: number; variance: number };
+
+const compareArms = (arms: Moments[], settings: CupedSettings): CupedComparison[] => {
+    const { confidenceLevel, hypothesis, margin, correction } = settings;
+    const alpha = 1 - confidenceLevel;
+    const zInterval = standardNormalInverseCdf(1 - alpha / 2);
+    const [control, ...variants] = arms;
+
+    const comparisons = variants.map((variant, i) => {
+        const absoluteDifference = variant.mean - control.mean;
+        const stdError = Math.sqrt(control.variance + variant.variance);
+        const absoluteInterval = { lower: absoluteDifference - zInterval * stdError, upper: absoluteDifference + zInterval * stdError };
+        const uplift = absoluteDifference / control.mean;
+        let upliftInterval: Interval | null = null;
+        if (control.mean > 0) {
+            const halfWidth = zInterval * Math.sqrt(variant.variance / control.mean ** 2 + (variant.mean ** 2 * control.variance) / control.mean ** 4);
+            upliftInterval = { lower: uplift - halfWidth, upper: uplift + halfWidth };
+        }
+        // Unpooled standard error throughout, shifted by the margin for non-inferiority as in compareToControl
+        const shift = hypothesis === 'non-inferiority' ? margin * control.mean : 0;
+        const zScore = stdError > 0 ? (absoluteDifference + shift) / stdError : 0;
+        const pValue = stdError > 0 ? pValueFromZ(zScore, hypothesis) : 1;
+        return { label: variantLabel(i), absoluteDifference, absoluteInterval, uplift, upliftInterval, zScore, pValue };
+    });
+
+    const adjustedPValues = adjustPValues(comparisons.map(comparison => comparison.pValue), correction);
+    return comparisons.map((comparison, i) => ({
+        ...comparison,
+        adjustedPValue: adjustedPValues[i],
+        confidence: 1 - adjustedPValues[i],
+        isSignificant: adjustedPValues[i] <= alpha,
+    }));
+};
+
+const validSettings = ({ confidenceLevel, hypothesis, margin }: CupedSettings) =>
+    confidenceLevel > 0 && confidenceLevel < 1 && (hypothesis !== 'non-inferiority' || (margin > 0 && margin < 1));
+
+/**
+ * Adjusts conversion counts with a known covariate correlation. Randomization balances the covariate between arms
+ * in expectation, so the estimates keep their value and only their variance shrinks by the factor 1 - ρ².
+ * Returns null when the counts, settings or correlation are invalid.
+ */
+export const cupedFromCorrelation = (control: ArmCounts, variants: ArmCounts[], correlation: number, settings: CupedSettings): CupedAnalysis | null => {
+    if (!isValidCorrelation(correlation) || !validSettings(settings) || variants.length === 0) return null;
+    const arms = [control, ...variants];
+    if (arms.some(({ visitors, conversions }) => !(visitors > 0) || !(conversions >= 0) || conversions > visitors)) return null;
+
+    const varianceFactor = 1 - correlation ** 2;
+    const moments = arms.map(({ visitors, conversions }) => {
+        const rate = conversions / visitors;
+        return { mean: rate, variance: (rate * (1 - rate) * varianceFactor) / visitors };
+    });
+    return { source: 'correlation', correlation, varianceReduction: correlation ** 2, theta: null, variantResults: compareArms(moments, settings) };
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Adjusts per-user metrics: each value becomes post - θ (pre - mean pre), with θ = cov(pre, post) / var(pre)
+ * over all users. Needs at least two users per arm and a covariate that varies; returns null otherwise.
+ */
+export const cupedFromUserData = (arms: CupedArm[], settings: CupedSettings): CupedAnalysis | null => {
+    if (arms.length < 2 || !validSettings(settings) || arms.some(arm => arm.pre.length < 2 || arm.pre.length !== arm.post.length)) return null;
+
+    const pre = arms.flatMap(arm => arm.pre);
+    const post = arms.flatMap(arm => arm.post);
+    const preMean = mean(pre);
+    const postMean = mean(post);
+    let covariance = 0;
+    let preVariance = 0;
+    let postVariance = 0;
+    pre.forEach((x, i) => {
+        covariance += (x - preMean) * (post[i] - postMean);
+        preVariance += (x - preMean) ** 2;
+        postVariance += (post[i] - postMean) ** 2;
+    });
+    if (!(preVariance > 0) || !(postVariance > 0)) return null;
+    const theta = covariance / preVariance;
+    const correlation = covariance / Math.sqrt(preVariance * postVariance);
+
+    const moments = arms.map(arm => {
+        const adjusted = arm.post.map((y, i) => y - theta * (arm.pre[i] - preMean));
+        const adjustedMean = mean(adjusted);
+        const variance = adjusted.reduce((sum, value) => sum + (value - adjustedMean) ** 2, 0) / (adjusted.length - 1);
+        return { mean: adjustedMean, variance: variance / adjusted.length };
+    });
+    return { source: 'user-data', correlation, varianceReduction: correlation ** 2, theta, variantResults: compareArms(moments, settings) };
+};
+
+/** Per-user rows as parsed from text: the arms in order of first appearance, the first being the control. */
+export type ParsedCupedData = { armNames: string[]; arms: CupedArm[]; errors: string[] };
+
+const CUPED_COLUMNS = ['variant', 'pre', 'post'] as const;
+
+/**
+ * Parses rows of `variant, pre, post` (one per user) from CSV, TSV or semicolon-separated text. A header row is
+ * optional. `pre` is the user's metric before the test and `post` the same metric during it, e.g. 0 or 1 for a conversion.
+ */
+export const parseCupedData = (text: string): ParsedCupedData => {
+    const armNames: string[] = [];
+    const arms: CupedArm[] = [];
+
+    const errors = readTable(text, CUPED_COLUMNS, 1, ([variant, preCell, postCell]) => {
+        const pre = Number(preCell);
+        const post = Number(postCell);
+
+        if (variant === '') return 'variant name is empty.';
+        if (preCell === '' || !Number.isFinite(pre)) return `pre "${preCell}" is not a number.`;
+        if (postCell === '' || !Number.isFinite(post)) return `post "${postCell}" is not a number.`;
+
+        if (!armNames.includes(variant)) {
+            armNames.push(variant);
+            arms.push({ pre: [], post: [] });
+        }
+        const arm = arms[armNames.indexOf(variant)];
+        arm.pre.push(pre);
+        arm.post.push(post);
+        return null;
+    });
+
+    if (errors.length === 0 && arms.length === 0) errors.push('No data rows found.');
+    if (errors.length === 0 && armNames.length < 2) errors.push('At least two variants are needed (the first one listed is the control).');
+    if (errors.length === 0 && armNames.length > MAX_VARIANTS + 1) errors.push(`At most ${MAX_VARIANTS + 1} variants are supported.`);
+    const tooSmall = armNames.filter((_, a) => arms[a].pre.length < 2);
+    if (errors.length === 0 && tooSmall.length > 0) errors.push(`Every variant needs at least two users; ${tooSmall.map(name => `"${name}"`).join(', ')} has fewer.`);
+
+    return errors.length > 0 ? { armNames, arms: [], errors } : { armNames, arms, errors };
+};
+
+/**
+ * Why per-user data does not belong to the entered counts: a different number of arms, or an arm whose users or
+ * conversions (its post values added up) differ from its visitors or conversions. Null when everything matches.
+ */
+export const cupedDataMismatch = (parsed: ParsedCupedData, counts: ArmCounts[]): string | null => {
+    if (parsed.arms.length !== counts.length) return `The data has ${parsed.arms.length} variants but the test has ${counts.length} arms.`;
+    for (let a = 0; a < counts.length; a++) {
+        const users = parsed.arms[a].post.length;
+        const conversions = parsed.arms[a].post.reduce((sum, value) => sum + value, 0);
+        if (users !== counts[a].visitors || conversions !== counts[a].conversions) {
+            return `"${parsed.armNames[a]}" has ${users} users and ${conversions} conversions, but ${counts[a].visitors} visitors and ${counts[a].conversions} conversions are entered for ${a === 0 ? 'the control' : `variation ${variantLabel(a - 1)}`}.`;
+        }
+    }
+    return null;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { cumulativeSeries, parseDailyData } from './daily';
+
+describe('parseDailyData', () => {
+    it('reads rows in any column order', () => {
+        const parsed = parseDailyData('variant\tdate\tconversions\tvisitors\nA\t2024-06-01\t10\t100\nB\t2024-06-01\t12\t100');
+        expect(parsed.errors).toEqual([]);
+        expect(parsed.rows).toEqual([
+            { date: '2024-06-01', variant: 'A', visitors: 100, conversions: 10 },
+            { date: '2024-06-01', variant: 'B', visitors: 100, conversions: 12 },
+        ]);
+    });
+
+    it('reports every bad line with its number', () => {
+        const parsed = parseDailyData('2024-06-01,A,100,10\n2024-13-01,B,100,12\n2024-06-01,A,100,10\n2024-06-02,B,1.5,1\n2024-06-02,B,100');
+        expect(parsed.errors).toEqual([
+            'Line 2: "2024-13-01" is not a valid date (expected YYYY-MM-DD).',
+            'Line 3: duplicate row for variant "A" on 2024-06-01.',
+            'Line 4: visitors "1.5" must be a whole number of 0 or more.',
+            'Line 5: expected 4 columns (date, variant, visitors, conversions) but found 3.',
+        ]);
+    });
+
+    it('needs at least two variants', () => {
+        expect(parseDailyData('').errors).toEqual(['No data rows found.']);
+        expect(parseDailyData('2024-06-01,A,100,10').errors).toEqual(['At least two variants are needed (the first one listed is the control).']);
+    });
+});
+
+describe('cumulativeSeries', () => {
+    it('adds up each variant by date, with the first variant listed as control', () => {
+        const { rows } = parseDailyData('2024-06-03,B,100,12\n2024-06-03,A,100,10\n2024-06-01,A,100,8\n2024-06-01,B,100,9');
+        const series = cumulativeSeries(rows);
+        expect(series.variantNames).toEqual(['B', 'A']);
+        expect(series.dates).toEqual(['2024-06-01', '2024-06-03']);
+        expect(series.points).toEqual([
+            [{ visitors: 100, conversions: 9 }, { visitors: 100, conversions: 8 }],
+            [{ visitors: 200, conversions: 21 }, { visitors: 200, conversions: 18 }],
+        ]);
+        expect(series.durationDays).toBe(3);
+    });
+});
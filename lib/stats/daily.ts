@@ -0,0 +1,70 @@
+import { ArmCounts, MAX_VARIANTS } from './conversion';
+import { readTable } from './table';
+
+// Daily visitors and conversions per variant, added up into the trajectory of a test.
+
+export type DailyRow = { date: string; variant: string; visitors: number; conversions: number };
+
+/** Daily rows as parsed from text, in the order they were listed. */
+export type ParsedDailyData = { rows: DailyRow[]; errors: string[] };
+
+/** Running totals of every variant at the end of each date; `points[d][0]` is the control. */
+export type CumulativeSeries = { variantNames: string[]; dates: string[]; points: ArmCounts[][]; durationDays: number };
+
+const DAILY_COLUMNS = ['date', 'variant', 'visitors', 'conversions'] as const;
+
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/**
+ * Parses rows of `date, variant, visitors, conversions` from CSV, TSV or semicolon-separated text. A header row is
+ * optional and dates use YYYY-MM-DD. Each variant may have one row per date.
+ */
+export const parseDailyData = (text: string): ParsedDailyData => {
+    const rows: DailyRow[] = [];
+    const seen = new Set<string>();
+
+    const errors = readTable(text, DAILY_COLUMNS, 2, ([date, variant, visitorsCell, conversionsCell]) => {
+        const visitors = Number(visitorsCell);
+        const conversions = Number(conversionsCell);
+
+        if (!isIsoDate(date)) return `"${date}" is not a valid date (expected YYYY-MM-DD).`;
+        if (variant === '') return 'variant name is empty.';
+        if (visitorsCell === '' || !Number.isInteger(visitors) || visitors < 0) return `visitors "${visitorsCell}" must be a whole number of 0 or more.`;
+        if (conversionsCell === '' || !Number.isInteger(conversions) || conversions < 0) return `conversions "${conversionsCell}" must be a whole number of 0 or more.`;
+        if (conversions > visitors) return `conversions (${conversions}) cannot exceed visitors (${visitors}).`;
+        if (seen.has(`${date}|${variant}`)) return `duplicate row for variant "${variant}" on ${date}.`;
+
+        seen.add(`${date}|${variant}`);
+        rows.push({ date, variant, visitors, conversions });
+        return null;
+    });
+
+    if (errors.length === 0 && rows.length === 0) errors.push('No data rows found.');
+    const variantCount = new Set(rows.map(row => row.variant)).size;
+    if (errors.length === 0 && variantCount < 2) errors.push('At least two variants are needed (the first one listed is the control).');
+    if (errors.length === 0 && variantCount > MAX_VARIANTS + 1) errors.push(`At most ${MAX_VARIANTS + 1} variants are supported.`);
+
+    return { rows, errors };
+};
+
+/** Cumulative totals per variant for every date; the first variant to appear is the control. `rows` must not be empty. */
+export const cumulativeSeries = (rows: DailyRow[]): CumulativeSeries => {
+    const variantNames = Array.from(new Set(rows.map(row => row.variant)));
+    const dates = Array.from(new Set(rows.map(row => row.date))).sort();
+    const running = variantNames.map(() => ({ visitors: 0, conversions: 0 }));
+
+    const points = dates.map(date => {
+        rows.filter(row => row.date === date).forEach(row => {
+            const totals = running[variantNames.indexOf(row.variant)];
+            totals.visitors += row.visitors;
+            totals.conversions += row.conversions;
+        });
+        return running.map(totals => ({ ...totals }));
+    });
+
+    const firstDate = Date.parse(`${dates[0]}T00:00:00Z`);
+    const lastDate = Date.parse(`${dates[dates.length - 1]}T00:00:00Z`);
+    const durationDays = Math.round((lastDate - firstDate) / 86400000) + 1;
+
+    return { variantNames, dates, points, durationDays };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+    chiSquareCdf,
+    logGamma,
+    standardNormalCdf,
+    standardNormalInverseCdf,
+    standardNormalSurvival,
+    studentTCdf,
+    studentTInverseCdf,
+} from './distributions';
+
+// Reference values from R (pnorm, qnorm, pchisq, qt) and standard statistical tables.
+const expectRelative = (actual: number, expected: number, tolerance: number) => {
+    expect(Math.abs(actual - expected) / Math.abs(expected)).toBeLessThan(tolerance);
+};
+
+describe('standardNormalCdf', () => {
+    it('matches reference values in the body of the distribution', () => {
+        expect(standardNormalCdf(0)).toBe(0.5);
+        expectRelative(standardNormalCdf(1.96), 0.9750021048517795, 1e-14);
+        expectRelative(standardNormalCdf(-1.96), 0.024997895148220435, 1e-13);
+        expectRelative(standardNormalCdf(1), 0.8413447460685429, 1e-14);
+    });
+
+    it('keeps relative precision deep in the tails', () => {
+        expectRelative(standardNormalCdf(-3), 0.0013498980316301, 1e-12);
+        expectRelative(standardNormalCdf(-5), 2.866515718791939e-7, 1e-12);
+        expectRelative(standardNormalCdf(-8), 6.220960574271785e-16, 1e-12);
+        expectRelative(standardNormalCdf(-10), 7.619853024160527e-24, 1e-12);
+        expectRelative(standardNormalSurvival(6), 9.865876450376981e-10, 1e-12);
+    });
+});
+
+describe('standardNormalInverseCdf', () => {
+    it('matches published critical values', () => {
+        expectRelative(standardNormalInverseCdf(0.975), 1.959963984540054, 1e-15);
+        expectRelative(standardNormalInverseCdf(0.95), 1.6448536269514722, 1e-15);
+        expectRelative(standardNormalInverseCdf(0.995), 2.5758293035489004, 1e-15);
+        expectRelative(standardNormalInverseCdf(0.8), 0.8416212335729143, 1e-15);
+        expectRelative(standardNormalInverseCdf(1e-10), -6.361340902404056, 1e-14);
+    });
+
+    it('inverts the CDF', () => {
+        for (const z of [-7, -3.5, -1, 0.25, 2, 5]) {
+            expect(standardNormalInverseCdf(standardNormalCdf(z))).toBeCloseTo(z, 10);
+        }
+    });
+
+    it('handles the edges of the domain', () => {
+        expect(standardNormalInverseCdf(0.5)).toBe(0);
+        expect(standardNormalInverseCdf(0)).toBe(-Infinity);
+        expect(standardNormalInverseCdf(1)).toBe(Infinity);
+        expect(standardNormalInverseCdf(1.5)).toBeNaN();
+    });
+});
+
+describe('gamma-based distributions', () => {
+    it('computes ln Γ', () => {
+        expectRelative(logGamma(5), Math.log(24), 1e-10);
+        expectRelative(logGamma(0.5), Math.log(Math.sqrt(Math.PI)), 1e-9);
+    });
+
+    it('matches chi-square critical values', () => {
+        expect(chiSquareCdf(3.841458820694124, 1)).toBeCloseTo(0.95, 10);
+        expect(chiSquareCdf(5.991464547107979, 2)).toBeCloseTo(0.95, 10);
+        expect(chiSquareCdf(11.344866730144373, 3)).toBeCloseTo(0.99, 10);
+    });
+});
+
+describe('Student t distribution', () => {
+    it('matches t-table critical values', () => {
+        expect(studentTInverseCdf(0.975, 1)).toBeCloseTo(12.706204736174698, 8);
+        expect(studentTInverseCdf(0.975, 10)).toBeCloseTo(2.2281388519649385, 8);
+        expect(studentTInverseCdf(0.975, 30)).toBeCloseTo(2.0422724563012373, 8);
+    });
+
+    it('is symmetric around zero', () => {
+        expect(studentTCdf(0, 5)).toBeCloseTo(0.5, 12);
+        expect(studentTCdf(-2, 7) + studentTCdf(2, 7)).toBeCloseTo(1, 12);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTest } from './conversion';
+import { chiSquareTest, fisherExactTest, recommendTestMethod } from './exact';
+
+// Reference values from R: fisher.test and prop.test(correct = TRUE / FALSE).
+
+describe('fisherExactTest', () => {
+    it('matches the lady tasting tea', () => {
+        // fisher.test(matrix(c(3, 1, 1, 3), 2)): p-value = 0.4857; alternative = "greater": 0.2429
+        expect(fisherExactTest(4, 3, 4, 1, 'two-sided')).toBeCloseTo(0.485714, 6);
+        expect(fisherExactTest(4, 3, 4, 1, 'less')).toBeCloseTo(0.242857, 6);
+        expect(fisherExactTest(4, 3, 4, 1, 'greater')).toBeCloseTo(0.985714, 6);
+    });
+
+    it('returns 1 when only one table is possible', () => {
+        expect(fisherExactTest(10, 0, 10, 0, 'two-sided')).toBe(1);
+    });
+
+    it('stays close to the Z-test for large samples', () => {
+        expect(fisherExactTest(1000, 100, 1000, 130, 'two-sided')).toBeCloseTo(0.0419, 3);
+    });
+
+    it('handles a million visitors per arm', () => {
+        // Pooled Z-test: z = 0.118, p = 0.906
+        expect(fisherExactTest(1e6, 1e5, 1e6, 1e5 + 50, 'two-sided')).toBeCloseTo(0.906, 2);
+        expect(fisherExactTest(1e6, 1e5, 1e6, 1e5 + 1000, 'greater')).toBeLessThan(0.01);
+    });
+});
+
+describe('chiSquareTest', () => {
+    it('matches prop.test with and without the continuity correction', () => {
+        // prop.test(c(100, 130), c(1000, 1000)): X-squared = 4.1317, p-value = 0.04209
+        const corrected = chiSquareTest(1000, 100, 1000, 130, 'two-sided', true);
+        expect(corrected.statistic).toBeCloseTo(4.1317, 4);
+        expect(corrected.pValue).toBeCloseTo(0.04209, 5);
+        // correct = FALSE: X-squared = 4.4215, p-value = 0.03549
+        expect(chiSquareTest(1000, 100, 1000, 130, 'two-sided', false).pValue).toBeCloseTo(0.03549, 5);
+    });
+
+    it('halves the p-value in the observed direction', () => {
+        expect(chiSquareTest(1000, 100, 1000, 130, 'greater', true).pValue).toBeCloseTo(0.04209 / 2, 5);
+    });
+});
+
+describe('recommendTestMethod', () => {
+    it('follows the smallest expected cell count', () => {
+        expect(recommendTestMethod({ visitors: 4, conversions: 3 }, [{ visitors: 4, conversions: 1 }], 'two-sided')).toEqual({ method: 'fisher', minExpected: 2 });
+        expect(recommendTestMethod({ visitors: 20, conversions: 2 }, [{ visitors: 20, conversions: 9 }], 'two-sided').method).toBe('yates');
+        expect(recommendTestMethod({ visitors: 1000, conversions: 100 }, [{ visitors: 1000, conversions: 130 }], 'two-sided').method).toBe('z-test');
+        expect(recommendTestMethod({ visitors: 4, conversions: 3 }, [{ visitors: 4, conversions: 1 }], 'non-inferiority').method).toBe('z-test');
+    });
+});
+
+describe('analyzeTest with a test method', () => {
+    const input = {
+        control: { visitors: 40, conversions: 0 },
+        variants: [{ visitors: 40, conversions: 0 }],
+        durationDays: 0,
+        confidenceLevel: 0.95,
+        hypothesis: 'two-sided' as const,
+        margin: 0,
+        correction: 'holm' as const,
+        intervalMethod: 'wilson' as const,
+    };
+
+    it('reports no confidence when neither arm converted', () => {
+        const result = analyzeTest(input);
+        expect(result?.variantResults[0]).toMatchObject({ pValue: 1, confidence: 0, isSignificant: false, testMethod: 'z-test' });
+    });
+
+    it('uses the recommended test when asked', () => {
+        const result = analyzeTest({ ...input, control: { visitors: 4, conversions: 3 }, variants: [{ visitors: 4, conversions: 1 }], testMethod: 'auto' });
+        expect(result?.recommendation.method).toBe('fisher');
+        expect(result?.variantResults[0].testMethod).toBe('fisher');
+        expect(result?.variantResults[0].pValue).toBeCloseTo(0.485714, 6);
+    });
+});
@@ -0,0 +1,108 @@
+import { chiSquareCdf } from './distributions';
+import { Hypothesis, pValueFromZ } from './hypothesis';
+
+// Tests of a 2×2 table (arm × converted) for small samples, where the Z-test's normal approximation is poor.
+
+/**
+ * How a variation's p-value is computed: the pooled two-proportion Z-test, Pearson's chi-square test
+ * without or with Yates' continuity correction, or Fisher's exact test.
+ */
+export type TestMethod = 'z-test' | 'chi-square' | 'yates' | 'fisher';
+
+/** A test method, or `auto` to use the one recommended for the counts. */
+export type TestMethodChoice = TestMethod | 'auto';
+
+export const TEST_METHOD_CHOICES: readonly TestMethodChoice[] = ['z-test', 'chi-square', 'yates', 'fisher', 'auto'];
+
+/** Below this smallest expected cell count, the chi-square approximation fails and Fisher's exact test is used. */
+export const FISHER_EXPECTED_COUNT = 5;
+
+/** Below this smallest expected cell count, the continuity correction noticeably improves the approximation. */
+export const YATES_EXPECTED_COUNT = 10;
+
+export type TestRecommendation = {
+    method: TestMethod;
+    /** Smallest expected cell count over all comparisons with control. */
+    minExpected: number;
+};
+
+// Expected counts of the four cells under independence: converted and not, in A and in B
+const expectedCounts = (vA: number, cA: number, vB: number, cB: number) => {
+    const total = vA + vB;
+    const converted = cA + cB;
+    return [vA * converted, vA * (total - converted), vB * converted, vB * (total - converted)].map(product => product / total);
+};
+
+/** Smallest expected cell count of the table; 0 when nobody or everybody converted. */
+export const minExpectedCount = (vA: number, cA: number, vB: number, cB: number): number => Math.min(...expectedCounts(vA, cA, vB, cB));
+
+/**
+ * Recommends a test from the smallest expected cell count over all comparisons (Cochran's rule): Fisher's exact
+ * test below 5, the chi-square test with Yates' correction below 10, and the Z-test otherwise. Non-inferiority
+ * tests a shifted null that only the Z-test supports.
+ */
+export const recommendTestMethod = (control: { visitors: number; conversions: number }, variants: { visitors: number; conversions: number }[], hypothesis: Hypothesis): TestRecommendation => {
+    const minExpected = Math.min(...variants.map(variant => minExpectedCount(control.visitors, control.conversions, variant.visitors, variant.conversions)));
+    if (hypothesis === 'non-inferiority') return { method: 'z-test', minExpected };
+    const method = minExpected < FISHER_EXPECTED_COUNT ? 'fisher' : minExpected < YATES_EXPECTED_COUNT ? 'yates' : 'z-test';
+    return { method, minExpected };
+};
+
+/**
+ * Pearson's chi-square test of independence, optionally with Yates' continuity correction (capped as in R's
+ * `chisq.test`). One-sided p-values use the signed square root of the statistic, as `prop.test` does.
+ */
+export const chiSquareTest = (vA: number, cA: number, vB: number, cB: number, hypothesis: Hypothesis, yates: boolean): { statistic: number; pValue: number } => {
+    const expected = expectedCounts(vA, cA, vB, cB);
+    if (expected.some(count => !(count > 0))) return { statistic: 0, pValue: 1 };
+
+    // Every cell deviates from its expected count by the same amount in a 2×2 table
+    const deviation = Math.abs(cB - expected[2]);
+    const correction = yates ? Math.min(0.5, deviation) : 0;
+    const statistic = (deviation - correction) ** 2 * expected.reduce((sum, count) => sum + 1 / count, 0);
+    if (hypothesis === 'two-sided') return { statistic, pValue: 1 - chiSquareCdf(statistic, 1) };
+    const direction = Math.sign(cB / vB - cA / vA);
+    return { statistic, pValue: pValueFromZ(direction * Math.sqrt(statistic), hypothesis) };
+};
+
+/**
+ * Fisher's exact test, conditional on both arms' visitors and the total conversions. The two-sided p-value sums
+ * every table no more likely than the observed one (with R's relative tolerance of 1e-7); `greater` and `less`
+ * sum the tables where B converts at least or at most as often as observed.
+ */
+export const fisherExactTest = (vA: number, cA: number, vB: number, cB: number, hypothesis: Hypothesis): number => {
+    const converted = cA + cB;
+    const low = Math.max(0, converted - vA);
+    const high = Math.min(vB, converted);
+    if (low === high) return 1;
+
+    // Hypergeometric log weights of B's conversions, built up by their ratio and walked twice rather than stored:
+    // at a million visitors per arm the table has hundreds of thousands of them
+    const eachLogWeight = (visit: (x: number, logWeight: number) => void) => {
+        let logWeight = 0;
+        for (let x = low; x <= high; x++) {
+            visit(x, logWeight);
+            logWeight += Math.log(((converted - x) * (vB - x)) / ((x + 1) * (vA - converted + x + 1)));
+        }
+    };
+    let largest = -Infinity;
+    let observed = 0;
+    eachLogWeight((x, logWeight) => {
+        largest = Math.max(largest, logWeight);
+        if (x === cB) observed = logWeight;
+    });
+
+    // Weights scaled by the largest, so the mode is 1 and the far tails underflow harmlessly to 0
+    const observedWeight = Math.exp(observed - largest);
+    let total = 0;
+    let tail = 0;
+    eachLogWeight((x, logWeight) => {
+        const weight = Math.exp(logWeight - largest);
+        total += weight;
+        const counts = hypothesis === 'greater' ? x >= cB
+            : hypothesis === 'less' ? x <= cB
+            : weight <= observedWeight * (1 + 1e-7);
+        if (counts) tail += weight;
+    });
+    return Math.min(1, tail / total);
+};
@@ -0,0 +1,19 @@
+import { standardNormalCdf, standardNormalInverseCdf, standardNormalSurvival } from './distributions';
+
+/**
+ * Alternative hypothesis for a variation (B) against control (A). Non-inferiority tests that B is not
+ * worse than A by more than a relative margin.
+ */
+export type Hypothesis = 'two-sided' | 'greater' | 'less' | 'non-inferiority';
+
+export const HYPOTHESES: readonly Hypothesis[] = ['two-sided', 'greater', 'less', 'non-inferiority'];
+
+/** Critical Z for the rejection region of the chosen alternative. */
+export const criticalZ = (alpha: number, hypothesis: Hypothesis): number =>
+    standardNormalInverseCdf(hypothesis === 'two-sided' ? 1 - alpha / 2 : 1 - alpha);
+
+export const pValueFromZ = (z: number, hypothesis: Hypothesis): number => {
+    if (hypothesis === 'two-sided') return 2 * standardNormalSurvival(Math.abs(z));
+    if (hypothesis === 'less') return standardNormalCdf(z);
+    return standardNormalSurvival(z);
+};
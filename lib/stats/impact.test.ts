@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTest } from './conversion';
+import { DAYS_PER_MONTH, projectImpact } from './impact';
+
+const analyze = (conversionsB: number, durationDays = 0) => {
+    const result = analyzeTest({
+        control: { visitors: 10000, conversions: 500 },
+        variants: [{ visitors: 10000, conversions: conversionsB }],
+        durationDays,
+        confidenceLevel: 0.95,
+        hypothesis: 'two-sided',
+        margin: 0,
+        correction: 'holm',
+        intervalMethod: 'wilson',
+    });
+    if (!result) throw new Error('invalid inputs');
+    return result.variantResults[0];
+};
+
+describe('projectImpact', () => {
+    it('scales the difference and its interval to traffic and revenue', () => {
+        const variant = analyze(560);
+        const impact = projectImpact(variant, 0.5, { monthlyTraffic: 100000, averageOrderValue: 50, horizonMonths: 6 });
+        expect(impact?.perMonth.conversions.estimate).toBeCloseTo(600, 9);
+        expect(impact?.perMonth.conversions.lower).toBeCloseTo(100000 * variant.absoluteInterval.lower, 9);
+        expect(impact?.perYear.revenue?.estimate).toBeCloseTo(600 * 12 * 50, 6);
+        expect(impact?.overHorizon.revenue?.upper).toBeCloseTo(600000 * variant.absoluteInterval.upper * 50, 6);
+    });
+
+    it('prices each day of testing on the traffic on the worse arm', () => {
+        const monthlyTraffic = 100000 * DAYS_PER_MONTH / 1000;
+        const better = projectImpact(analyze(560), 0.25, { monthlyTraffic, averageOrderValue: null, horizonMonths: 12 });
+        expect(better?.costPerDay.conversions).toBeCloseTo(100 * 0.75 * 0.006, 9);
+        expect(better?.perMonth.revenue).toBeNull();
+        const worse = projectImpact(analyze(440), 0.25, { monthlyTraffic, averageOrderValue: 10, horizonMonths: 12 });
+        expect(worse?.perMonth.conversions.estimate).toBeLessThan(0);
+        expect(worse?.costPerDay.revenue).toBeCloseTo(100 * 0.25 * 0.006 * 10, 9);
+    });
+
+    it('totals the cost of the additional days the test needs', () => {
+        const variant = analyze(530, 14);
+        expect(typeof variant.additionalDaysNeeded).toBe('number');
+        const impact = projectImpact(variant, 0.5, { monthlyTraffic: 30000, averageOrderValue: 20, horizonMonths: 12 });
+        expect(impact?.costOfWaiting?.days).toBe(variant.additionalDaysNeeded);
+        expect(impact?.costOfWaiting?.revenue).toBeCloseTo((impact?.costPerDay.revenue ?? 0) * (variant.additionalDaysNeeded as number), 9);
+    });
+
+    it('needs positive traffic and horizon', () => {
+        expect(projectImpact(analyze(560), 0.5, { monthlyTraffic: 0, averageOrderValue: null, horizonMonths: 12 })).toBeNull();
+        expect(projectImpact(analyze(560), 0.5, { monthlyTraffic: 1000, averageOrderValue: -1, horizonMonths: 12 })).toBeNull();
+    });
+});
@@ -0,0 +1,75 @@
+import { VariantResult } from './conversion';
+
+// Business impact of shipping a variation: incremental conversions and revenue projected from the observed difference.
+
+/** Average days in a month, to turn monthly traffic into daily traffic. */
+export const DAYS_PER_MONTH = 365.25 / 12;
+
+export type ImpactInput = {
+    /** Visitors per month who would see the variation once it ships to everyone. */
+    monthlyTraffic: number;
+    /** Revenue per conversion; null projects conversions only. */
+    averageOrderValue: number | null;
+    /** Months the shipped variation is expected to keep its effect. */
+    horizonMonths: number;
+};
+
+/** A projected amount, with the range implied by the confidence interval of the absolute difference. */
+export type ImpactRange = { estimate: number; lower: number; upper: number };
+
+export type ImpactAmounts = { conversions: ImpactRange; revenue: ImpactRange | null };
+
+export type ImpactProjection = {
+    label: string;
+    perMonth: ImpactAmounts;
+    perYear: ImpactAmounts;
+    overHorizon: ImpactAmounts;
+    /**
+     * What one more day of testing costs at the observed difference: the gain missed by visitors still kept on the
+     * other arms when the variation is better, or the loss on visitors still sent to it when it is worse.
+     */
+    costPerDay: { conversions: number; revenue: number | null };
+    /** Cost of the additional days the test still needs; null when there is no estimate of them. */
+    costOfWaiting: { days: number; conversions: number; revenue: number | null } | null;
+};
+
+/**
+ * Projects the incremental conversions and revenue of shipping one variation, assuming the observed absolute
+ * difference holds for all monthly traffic. `trafficShare` is the variation's current share of the test's visitors.
+ * Returns null when the traffic or horizon is not positive or the order value is negative.
+ */
+export const projectImpact = (variant: VariantResult, trafficShare: number, input: ImpactInput): ImpactProjection | null => {
+    const { monthlyTraffic, averageOrderValue, horizonMonths } = input;
+    if (!(monthlyTraffic > 0) || !(horizonMonths > 0) || !(trafficShare >= 0 && trafficShare <= 1)) return null;
+    if (averageOrderValue !== null && !(averageOrderValue >= 0)) return null;
+
+    const { absoluteDifference, absoluteInterval } = variant;
+    const amounts = (visitors: number): ImpactAmounts => {
+        const conversions = { estimate: visitors * absoluteDifference, lower: visitors * absoluteInterval.lower, upper: visitors * absoluteInterval.upper };
+        const revenue = averageOrderValue === null ? null : {
+            estimate: conversions.estimate * averageOrderValue,
+            lower: conversions.lower * averageOrderValue,
+            upper: conversions.upper * averageOrderValue,
+        };
+        return { conversions, revenue };
+    };
+
+    const dailyTraffic = monthlyTraffic / DAYS_PER_MONTH;
+    const affectedShare = absoluteDifference >= 0 ? 1 - trafficShare : trafficShare;
+    const dailyConversions = dailyTraffic * affectedShare * Math.abs(absoluteDifference);
+    const costPerDay = { conversions: dailyConversions, revenue: averageOrderValue === null ? null : dailyConversions * averageOrderValue };
+
+    const days = variant.additionalDaysNeeded;
+    const costOfWaiting = typeof days === 'number' && days > 0
+        ? { days, conversions: costPerDay.conversions * days, revenue: costPerDay.revenue === null ? null : costPerDay.revenue * days }
+        : null;
+
+    return {
+        label: variant.label,
+        perMonth: amounts(monthlyTraffic),
+        perYear: amounts(monthlyTraffic * 12),
+        overHorizon: amounts(monthlyTraffic * horizonMonths),
+        costPerDay,
+        costOfWaiting,
+    };
+};
@@ -0,0 +1,14 @@
+// Statistics engine shared by the calculator UI and other tools. Everything here is pure and framework-free.
+export * from './distributions';
+export * from './random';
+export * from './hypothesis';
+export * from './conversion';
+export * from './exact';
+export * from './segments';
+export * from './daily';
+export * from './impact';
+export * from './cuped';
+export * from './sequential';
+export * from './planning';
+export * from './bayesian';
+export * from './continuous';
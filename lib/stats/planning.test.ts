@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createPlanner, parseAllocation, planTest, PlanningInput } from './planning';
+
+const input: PlanningInput = {
+    metricType: 'conversion',
+    weeklyTraffic: 7000,
+    weeklyConversions: 700,
+    baselineMean: 0,
+    baselineSd: 0,
+    confidenceLevel: 0.95,
+    power: 0.8,
+    hypothesis: 'two-sided',
+    margin: 0,
+    arms: 2,
+    exposure: 1,
+};
+
+describe('createPlanner', () => {
+    it('matches the textbook sample size for two proportions', () => {
+        // n per arm = (z_0.975 + z_0.8)² (p1q1 + p2q2) / δ² = 3838.3 for 10% → 12%
+        const planner = createPlanner(input)!;
+        expect(planner.requiredSampleSize(0.2) / 2).toBeCloseTo(3838.3, 0);
+    });
+
+    it('reaches the configured power at the required sample size', () => {
+        const planner = createPlanner(input)!;
+        expect(planner.achievedPower(0.2, planner.requiredSampleSize(0.2))).toBeCloseTo(0.8, 2);
+    });
+
+    it('inverts the sample size when solving for MDE', () => {
+        const planner = createPlanner(input)!;
+        expect(planner.mdeForSample(planner.requiredSampleSize(0.15))).toBeCloseTo(0.15, 8);
+    });
+
+    it('needs more traffic for an unequal split', () => {
+        const equal = createPlanner(input)!;
+        const uneven = createPlanner({ ...input, allocation: [90, 10] })!;
+        expect(uneven.requiredSampleSize(0.2)).toBeGreaterThan(equal.requiredSampleSize(0.2));
+    });
+
+    it('rejects impossible baselines', () => {
+        expect(createPlanner({ ...input, weeklyConversions: 0 })).toBeNull();
+        expect(createPlanner({ ...input, arms: 1 })).toBeNull();
+    });
+});
+
+describe('planTest', () => {
+    it('solves for duration', () => {
+        const result = planTest({ ...input, solveFor: 'duration', minWeeks: 1, maxWeeks: 6, targetMde: 0.2 })!;
+        expect(result.requirement?.requiredTotal).toBe(7677);
+        expect(result.requirement?.days).toBe(8);
+        expect(result.requirement?.perArm).toEqual([3839, 3839]);
+    });
+
+    it('tabulates the MDE by week', () => {
+        const result = planTest({ ...input, solveFor: 'mde', minWeeks: 1, maxWeeks: 4, targetMde: 0 })!;
+        expect(result.durationResults.map(row => row.weeks)).toEqual([1, 2, 3, 4]);
+        const mdes = result.durationResults.map(row => row.value!);
+        expect(mdes[1]).toBeLessThan(mdes[0]);
+    });
+
+    it('shows how much sooner CUPED reaches each MDE', () => {
+        // ρ = 0.5 removes 25% of the variance, so every MDE is reached in 75% of the time
+        const mde = planTest({ ...input, solveFor: 'mde', minWeeks: 1, maxWeeks: 4, targetMde: 0, covariateCorrelation: 0.5 })!;
+        expect(mde.varianceReduction).toBeCloseTo(0.25, 12);
+        expect(mde.durationResults.map(row => row.cuped)).toEqual([6, 11, 16, 21]);
+
+        const duration = planTest({ ...input, solveFor: 'duration', minWeeks: 1, maxWeeks: 6, targetMde: 0.2, covariateCorrelation: 0.5 })!;
+        expect(duration.requirement?.cuped).toEqual({ requiredTotal: 5758, days: 6 });
+
+        const power = planTest({ ...input, solveFor: 'power', minWeeks: 1, maxWeeks: 1, targetMde: 0.2, covariateCorrelation: 0.5 })!;
+        expect(power.durationResults[0].cuped).toBeGreaterThan(power.durationResults[0].value!);
+        expect(planTest({ ...input, solveFor: 'mde', minWeeks: 1, maxWeeks: 4, targetMde: 0 })?.durationResults[0].cuped).toBeUndefined();
+        expect(planTest({ ...input, solveFor: 'mde', minWeeks: 1, maxWeeks: 4, targetMde: 0, covariateCorrelation: 1 })).toBeNull();
+    });
+});
+
+describe('parseAllocation', () => {
+    it('normalizes a split to shares', () => {
+        expect(parseAllocation('90/10', 2)).toEqual([0.9, 0.1]);
+        expect(parseAllocation('', 4)).toEqual([0.25, 0.25, 0.25, 0.25]);
+        expect(parseAllocation('50/50', 3)).toBeNull();
+    });
+});
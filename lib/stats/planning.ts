@@ -0,0 +1,217 @@
+import { standardNormalCdf, standardNormalInverseCdf } from './distributions';
+import { criticalZ, Hypothesis } from './hypothesis';
+import { MAX_VARIANTS } from './conversion';
+import { isValidCorrelation } from './cuped';
+
+// Pre-test planning: sample size, minimum detectable effect (MDE) and power for a planned test.
+
+export type MetricType = 'conversion' | 'continuous';
+export type SolveFor = 'mde' | 'duration' | 'power';
+
+export const METRIC_TYPES: readonly MetricType[] = ['conversion', 'continuous'];
+export const SOLVE_FOR: readonly SolveFor[] = ['mde', 'duration', 'power'];
+
+export const MAX_PLANNING_WEEKS = 104;
+
+const DEFAULT_MDE_CEILING = 5; // 500%
+
+export type PlanningInput = {
+    metricType: MetricType;
+    weeklyTraffic: number;
+    /** Conversion metrics only. */
+    weeklyConversions: number;
+    /** Baseline mean and standard deviation per visitor; continuous metrics only. */
+    baselineMean: number;
+    baselineSd: number;
+    /** Confidence level as a fraction, e.g. 0.95. */
+    confidenceLevel: number;
+    /** Statistical power as a fraction, e.g. 0.8. */
+    power: number;
+    hypothesis: Hypothesis;
+    /** Relative non-inferiority margin as a fraction. Only used for non-inferiority. */
+    margin: number;
+    /** Number of arms, control included. */
+    arms: number;
+    /** Traffic weight of each arm, control first; leave it out for an equal split. */
+    allocation?: number[];
+    /** Share of traffic that enters the experiment, as a fraction. */
+    exposure: number;
+    /** Largest relative MDE searched for, as a fraction (defaults to 5, i.e. 500%). */
+    mdeCeiling?: number;
+};
+
+export type PlanningRequest = PlanningInput & {
+    solveFor: SolveFor;
+    /** Range of durations tabulated when solving for MDE or power. */
+    minWeeks: number;
+    maxWeeks: number;
+    /** Relative effect as a fraction; required when solving for duration or power. */
+    targetMde: number;
+    /** Correlation of the metric with a pre-period covariate; adds the CUPED columns. */
+    covariateCorrelation?: number;
+};
+
+/** Planning functions for a validated set of inputs. MDEs and effects are relative, as fractions. */
+export type Planner = {
+    /** Total visitors that must enter the experiment to detect the MDE (Infinity when it cannot be detected). */
+    requiredSampleSize: (mde: number) => number;
+    /** Smallest detectable MDE for a total sample, or null when it is above the search ceiling. */
+    mdeForSample: (sampleSize: number) => number | null;
+    /** Power to detect a true relative effect with a total sample; null when the effect is impossible. */
+    achievedPower: (mde: number, sampleSize: number) => number | null;
+    dailyExperimentTraffic: number;
+    /** Traffic share of each arm, summing to 1. */
+    shares: number[];
+};
+
+/**
+ * One row of the duration table: the MDE or the power reached after `weeks`. With a covariate correlation, `cuped`
+ * is the number of days CUPED needs to reach the same MDE, or the power it reaches in the same weeks.
+ */
+export type DurationRow = { weeks: number; value: number | null; cuped?: number | null };
+
+export type SampleRequirement = { requiredTotal: number; perArm: number[]; days: number; cuped?: { requiredTotal: number; days: number } };
+
+export type PlanningResult = {
+    solveFor: SolveFor;
+    /** Share of the variance CUPED removes, ρ²; null without a covariate correlation. */
+    varianceReduction: number | null;
+    durationResults: DurationRow[];
+    /** Set when solving for duration and the target MDE can be detected. */
+    requirement: SampleRequirement | null;
+    planner: Planner;
+};
+
+// Parses a split such as "90/10" or "34/33/33" into shares that sum to 1; blank means an equal split.
+export const parseAllocation = (allocation: string, arms: number): number[] | null => {
+    if (allocation.trim() === '') return Array.from({ length: arms }, () => 1 / arms);
+    const parts = allocation.split(/[/,:\s]+/).filter(part => part !== '').map(Number);
+    if (parts.length !== arms || parts.some(part => !(part > 0))) return null;
+    const total = parts.reduce((sum, part) => sum + part, 0);
+    return parts.map(part => part / total);
+};
+
+/** Builds the planning functions, or returns null when the inputs cannot be planned with. */
+export const createPlanner = (input: PlanningInput): Planner | null => {
+    const { metricType, weeklyTraffic: traffic, weeklyConversions: conversions, baselineMean: mean, baselineSd: sd, hypothesis, arms, allocation, exposure } = input;
+    const isContinuous = metricType === 'continuous';
+    const conf = input.confidenceLevel;
+    const pow = input.power;
+    const niMargin = hypothesis === 'non-inferiority' ? input.margin : 0;
+    const searchCeiling = input.mdeCeiling !== undefined && input.mdeCeiling > 0 ? input.mdeCeiling : DEFAULT_MDE_CEILING;
+
+    if (!(traffic > 0) || !(conf > 0) || !(conf < 1) || !(pow > 0) || !(pow < 1)) return null;
+    if (isContinuous ? (!(mean > 0) || !(sd > 0)) : (!(conversions >= 0) || conversions > traffic)) return null;
+    if (hypothesis === 'non-inferiority' && (!(niMargin > 0) || niMargin >= 1)) return null;
+    if (!Number.isInteger(arms) || arms < 2 || arms > MAX_VARIANTS + 1 || !(exposure > 0) || exposure > 1) return null;
+    if (allocation && (allocation.length !== arms || allocation.some(weight => !(weight > 0)))) return null;
+
+    const totalWeight = allocation ? allocation.reduce((sum, weight) => sum + weight, 0) : arms;
+    const shares = allocation ? allocation.map(weight => weight / totalWeight) : Array.from({ length: arms }, () => 1 / arms);
+
+    const baselineConvRate = conversions / traffic;
+    if (!isContinuous && (baselineConvRate === 0 || baselineConvRate === 1)) return null;
+
+    const p1 = baselineConvRate;
+    // Each variation is compared with control; Bonferroni keeps the family-wise error at alpha
+    const alpha = (1 - conf) / (arms - 1);
+    const beta = 1 - pow;
+    const Z_ALPHA = criticalZ(alpha, hypothesis);
+    const Z_BETA = standardNormalInverseCdf(1 - beta);
+    const controlShare = shares[0];
+    const variantShare = Math.min(...shares.slice(1)); // the smallest arm is the hardest comparison
+
+    // Effect (in the direction of the alternative) and variance of its estimate per visitor in the experiment.
+    // MDE is a relative change in the direction of the alternative (a drop for "B < A").
+    const effectAndVariance = (mde: number) => {
+        if (isContinuous) {
+            return { effect: (mde + niMargin) * mean, unitVariance: sd ** 2 * (1 / controlShare + 1 / variantShare) };
+        }
+        const p2 = p1 * (1 + (hypothesis === 'less' ? -mde : mde));
+        if (p2 > 1 || p2 < 0) return null;
+        return {
+            effect: Math.abs(p2 - p1) + niMargin * p1,
+            unitVariance: (p1 * (1 - p1)) / controlShare + (p2 * (1 - p2)) / variantShare,
+        };
+    };
+
+    const requiredSampleSize = (mde: number) => {
+        if (mde < 0 || (mde === 0 && niMargin === 0)) return Infinity;
+        const terms = effectAndVariance(mde);
+        if (!terms || terms.effect === 0) return Infinity;
+        return ((Z_ALPHA + Z_BETA) ** 2 * terms.unitVariance) / terms.effect ** 2;
+    };
+
+    const achievedPower = (mde: number, sampleSize: number) => {
+        const terms = effectAndVariance(mde);
+        if (!terms) return null;
+        return standardNormalCdf(terms.effect / Math.sqrt(terms.unitVariance / sampleSize) - Z_ALPHA);
+    };
+
+    const mdeForSample = (sampleSize: number) => {
+        let lowMde = 0;
+        let highMde = searchCeiling; // Search up to the configured MDE ceiling
+
+        for(let i = 0; i < 100; i++) { // 100 iterations for precision
+            const midMde = (lowMde + highMde) / 2;
+            if (midMde === 0) break;
+            const requiredN = requiredSampleSize(midMde);
+
+            if (requiredN > sampleSize) {
+                lowMde = midMde;
+            } else {
+                highMde = midMde;
+            }
+        }
+
+        return highMde < searchCeiling ? highMde : null; // null when no reasonable MDE was found
+    };
+
+    return { requiredSampleSize, mdeForSample, achievedPower, dailyExperimentTraffic: (traffic * exposure) / 7, shares };
+};
+
+/**
+ * Solves the plan for MDE, duration or power. With a covariate correlation ρ, CUPED scales the variance per visitor
+ * by 1 - ρ², so the same MDE needs that fraction of the sample. Returns null when the inputs cannot be planned with.
+ */
+export const planTest = (request: PlanningRequest): PlanningResult | null => {
+    const { solveFor, minWeeks: firstWeek, maxWeeks: lastWeek, targetMde: target, covariateCorrelation: correlation } = request;
+
+    if (solveFor !== 'duration' && (!Number.isInteger(firstWeek) || !Number.isInteger(lastWeek) || firstWeek < 1 || lastWeek < firstWeek || lastWeek > MAX_PLANNING_WEEKS)) return null;
+    if (solveFor === 'mde' && request.mdeCeiling !== undefined && !(request.mdeCeiling > 0)) return null;
+    if (solveFor !== 'mde' && !(target > 0)) return null;
+    if (correlation !== undefined && !isValidCorrelation(correlation)) return null;
+
+    const planner = createPlanner(request);
+    if (!planner) return null;
+    const varianceReduction = correlation === undefined ? null : correlation ** 2;
+    const varianceFactor = 1 - (varianceReduction ?? 0);
+
+    if (solveFor === 'duration') {
+        const requiredTotal = Math.ceil(planner.requiredSampleSize(target));
+        if (!Number.isFinite(requiredTotal)) return { solveFor, varianceReduction, durationResults: [], requirement: null, planner };
+        const days = Math.ceil(requiredTotal / planner.dailyExperimentTraffic);
+        const requirement: SampleRequirement = { requiredTotal, perArm: planner.shares.map(share => Math.ceil(requiredTotal * share)), days };
+        if (varianceReduction !== null) {
+            const cupedTotal = Math.ceil(planner.requiredSampleSize(target) * varianceFactor);
+            requirement.cuped = { requiredTotal: cupedTotal, days: Math.ceil(cupedTotal / planner.dailyExperimentTraffic) };
+        }
+        return { solveFor, varianceReduction, durationResults: [], requirement, planner };
+    }
+
+    const durationResults: DurationRow[] = [];
+    for (let weeks = firstWeek; weeks <= lastWeek; weeks++) {
+        const sampleSize = planner.dailyExperimentTraffic * weeks * 7;
+        const row: DurationRow = {
+            weeks,
+            value: solveFor === 'power' ? planner.achievedPower(target, sampleSize) : planner.mdeForSample(sampleSize),
+        };
+        if (varianceReduction !== null) {
+            // Less variance per visitor is worth the same as a sample larger by 1 / (1 - ρ²)
+            row.cuped = solveFor === 'power' ? planner.achievedPower(target, sampleSize / varianceFactor) : row.value === null ? null : Math.ceil(weeks * 7 * varianceFactor);
+        }
+        durationResults.push(row);
+    }
+
+    return { solveFor, varianceReduction, durationResults, requirement: null, planner };
+};
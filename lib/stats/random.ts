@@ -0,0 +1,47 @@
+// Random sampling for the Monte Carlo estimates.
+
+/** Seeded PRNG (mulberry32) so Monte Carlo results are reproducible for the same inputs. */
+export const createRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const sampleStandardNormal = (random: () => number): number => {
+    // Box-Muller transform
+    const u1 = random() || Number.MIN_VALUE;
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+export const sampleGamma = (shape: number, random: () => number): number => {
+    // Marsaglia-Tsang; shapes below 1 are boosted and scaled back down
+    if (shape < 1) {
+        return sampleGamma(shape + 1, random) * Math.pow(random() || Number.MIN_VALUE, 1 / shape);
+    }
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    while (true) {
+        let x: number;
+        let v: number;
+        do {
+            x = sampleStandardNormal(random);
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = random();
+        if (u < 1 - 0.0331 * x ** 4) return d * v;
+        if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+};
+
+export const sampleBeta = (alpha: number, beta: number, random: () => number): number => {
+    const x = sampleGamma(alpha, random);
+    const y = sampleGamma(beta, random);
+    return x / (x + y);
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSegments, parseSegmentData, SegmentCounts } from './segments';
+
+const settings = { confidenceLevel: 0.95, hypothesis: 'two-sided' as const, margin: 0, correction: 'holm' as const, intervalMethod: 'wilson' as const };
+
+const segment = (name: string, control: [number, number], variant: [number, number]): SegmentCounts => ({
+    name,
+    arms: [{ visitors: control[0], conversions: control[1] }, { visitors: variant[0], conversions: variant[1] }],
+});
+
+describe('analyzeSegments', () => {
+    it('analyzes each segment and the pooled totals', () => {
+        const result = analyzeSegments({ ...settings, segments: [segment('desktop', [5000, 500], [5000, 600]), segment('mobile', [5000, 500], [5000, 520])] });
+        expect(result?.segments.map(s => s.name)).toEqual(['desktop', 'mobile']);
+        expect(result?.segments[0].result?.variantResults[0].uplift).toBeCloseTo(0.2, 12);
+        expect(result?.pooled.variantResults[0].uplift).toBeCloseTo(0.12, 12);
+        expect(result?.trafficMix?.isMismatch).toBe(false);
+    });
+
+    it('flags segments whose effects point in different directions', () => {
+        const result = analyzeSegments({ ...settings, segments: [segment('desktop', [5000, 500], [5000, 600]), segment('mobile', [5000, 500], [5000, 400])] });
+        const heterogeneity = result?.heterogeneity[0];
+        expect(heterogeneity?.degreesOfFreedom).toBe(1);
+        expect(heterogeneity?.isHeterogeneous).toBe(true);
+        expect(heterogeneity?.iSquared).toBeGreaterThan(0.9);
+    });
+
+    it("detects Simpson's paradox and the traffic mix behind it", () => {
+        // Kidney stone treatments (Charig et al., 1986): better in both stone sizes, worse overall
+        const result = analyzeSegments({ ...settings, segments: [segment('small', [87, 81], [270, 234]), segment('large', [263, 192], [80, 55])] });
+        expect(result?.paradoxes).toHaveLength(1);
+        expect(result?.paradoxes[0].pooledDifference).toBeCloseTo(289 / 350 - 273 / 350, 12);
+        expect(result?.paradoxes[0].weightedDifference).toBeLessThan(0);
+        expect(result?.trafficMix?.isMismatch).toBe(true);
+        expect(result?.trafficMix?.shares[0][0]).toBeCloseTo(87 / 350, 12);
+    });
+
+    it('needs the same arms in every segment', () => {
+        expect(analyzeSegments({ ...settings, segments: [] })).toBeNull();
+        expect(analyzeSegments({ ...settings, segments: [segment('a', [10, 1], [10, 2]), { name: 'b', arms: [{ visitors: 10, conversions: 1 }] }] })).toBeNull();
+    });
+});
+
+describe('parseSegmentData', () => {
+    it('reads rows in any column order', () => {
+        const parsed = parseSegmentData('variant;segment;conversions;visitors\nA;desktop;50;1000\nB;desktop;60;1000\nA;mobile;40;1000\nB;mobile;38;1000');
+        expect(parsed.errors).toEqual([]);
+        expect(parsed.armNames).toEqual(['A', 'B']);
+        expect(parsed.segments[1]).toEqual(segment('mobile', [1000, 40], [1000, 38]));
+    });
+
+    it('reports bad rows and segments missing an arm', () => {
+        expect(parseSegmentData('desktop,A,100,120').errors).toEqual(['Line 1: conversions (120) cannot exceed visitors (100).']);
+        expect(parseSegmentData('desktop,A,100,10\ndesktop,B,100,12\nmobile,A,100,9').errors).toEqual(['Segment "mobile" has no row for "B".']);
+    });
+});
@@ -0,0 +1,176 @@
+import { chiSquareCdf } from './distributions';
+import { analyzeTest, ArmCounts, MAX_VARIANTS, SRM_THRESHOLD, TestAnalysisInput, TestAnalysisResult, variantLabel } from './conversion';
+import { readTable } from './table';
+
+// Results broken down by segment (device, new vs returning, ...), with checks that the segments tell the same story.
+
+/** Counts of every arm within one segment; `arms[0]` is the control. */
+export type SegmentCounts = { name: string; arms: ArmCounts[] };
+
+export type SegmentAnalysisInput = Omit<TestAnalysisInput, 'control' | 'variants' | 'durationDays'> & { segments: SegmentCounts[] };
+
+/** Below this p-value, Cochran's Q flags the segments' effects as different. */
+export const HETEROGENEITY_THRESHOLD = 0.05;
+
+/** Cochran's Q test of whether one variation's absolute difference from control is the same in every segment. */
+export type Heterogeneity = {
+    label: string;
+    q: number;
+    degreesOfFreedom: number;
+    pValue: number;
+    /** Share of the variation between segments beyond chance, 0 to 1. */
+    iSquared: number;
+    /** Inverse-variance weighted mean of the segments' absolute differences. */
+    weightedDifference: number;
+    isHeterogeneous: boolean;
+};
+
+/** The pooled difference points the other way from the segments' weighted difference. */
+export type SimpsonsParadox = { label: string; pooledDifference: number; weightedDifference: number };
+
+/** Chi-square test of whether the segments make up the same share of traffic in every arm. */
+export type TrafficMix = {
+    /** For each arm, the share of its visitors in each segment. */
+    shares: number[][];
+    chiSquare: number;
+    degreesOfFreedom: number;
+    pValue: number;
+    isMismatch: boolean;
+};
+
+export type SegmentAnalysisResult = {
+    /** Per segment, the same analysis as the totals; null when a segment cannot be analyzed (e.g. an arm has no visitors). */
+    segments: { name: string; result: TestAnalysisResult | null }[];
+    /** Analysis of all segments added up. */
+    pooled: TestAnalysisResult;
+    /** One entry per variation; null when fewer than two segments have data to compare. */
+    heterogeneity: (Heterogeneity | null)[];
+    paradoxes: SimpsonsParadox[];
+    trafficMix: TrafficMix | null;
+};
+
+// Absolute difference of B against A with its unpooled variance; null when the variance is 0
+const difference = (control: ArmCounts, variant: ArmCounts) => {
+    if (!(control.visitors > 0) || !(variant.visitors > 0)) return null;
+    const rateA = control.conversions / control.visitors;
+    const rateB = variant.conversions / variant.visitors;
+    const variance = (rateA * (1 - rateA)) / control.visitors + (rateB * (1 - rateB)) / variant.visitors;
+    return variance > 0 ? { value: rateB - rateA, variance } : null;
+};
+
+const cochranQ = (label: string, estimates: { value: number; variance: number }[]): Heterogeneity | null => {
+    if (estimates.length < 2) return null;
+    const weights = estimates.map(estimate => 1 / estimate.variance);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const weightedDifference = estimates.reduce((sum, estimate, i) => sum + weights[i] * estimate.value, 0) / totalWeight;
+    const q = estimates.reduce((sum, estimate, i) => sum + weights[i] * (estimate.value - weightedDifference) ** 2, 0);
+    const degreesOfFreedom = estimates.length - 1;
+    const pValue = 1 - chiSquareCdf(q, degreesOfFreedom);
+    const iSquared = q > 0 ? Math.max(0, (q - degreesOfFreedom) / q) : 0;
+    return { label, q, degreesOfFreedom, pValue, iSquared, weightedDifference, isHeterogeneous: pValue < HETEROGENEITY_THRESHOLD };
+};
+
+// Chi-square test of independence between segment and arm, on visitors
+const trafficMix = (segments: SegmentCounts[]): TrafficMix | null => {
+    const armCount = segments[0].arms.length;
+    const armTotals = Array.from({ length: armCount }, (_, a) => segments.reduce((sum, segment) => sum + segment.arms[a].visitors, 0));
+    const segmentTotals = segments.map(segment => segment.arms.reduce((sum, arm) => sum + arm.visitors, 0));
+    const total = armTotals.reduce((sum, visitors) => sum + visitors, 0);
+    if (segments.length < 2 || !(total > 0) || segmentTotals.some(visitors => !(visitors > 0)) || armTotals.some(visitors => !(visitors > 0))) return null;
+
+    let chiSquare = 0;
+    segments.forEach((segment, s) => segment.arms.forEach((arm, a) => {
+        const expected = (segmentTotals[s] * armTotals[a]) / total;
+        chiSquare += (arm.visitors - expected) ** 2 / expected;
+    }));
+    const degreesOfFreedom = (segments.length - 1) * (armCount - 1);
+    const pValue = 1 - chiSquareCdf(chiSquare, degreesOfFreedom);
+    const shares = armTotals.map((armTotal, a) => segments.map(segment => segment.arms[a].visitors / armTotal));
+    return { shares, chiSquare, degreesOfFreedom, pValue, isMismatch: pValue < SRM_THRESHOLD };
+};
+
+/**
+ * Analyzes each segment like the totals, then checks the segments against each other: Cochran's Q for
+ * differing effects, Simpson's paradox for a pooled result that contradicts the segments, and the traffic mix.
+ * Returns null when the segments do not all have the same arms or the totals cannot be analyzed.
+ */
+export const analyzeSegments = (input: SegmentAnalysisInput): SegmentAnalysisResult | null => {
+    const { segments, ...settings } = input;
+    if (segments.length === 0) return null;
+    const armCount = segments[0].arms.length;
+    if (armCount < 2 || segments.some(segment => segment.arms.length !== armCount)) return null;
+
+    const analyze = (arms: ArmCounts[]) => analyzeTest({ ...settings, control: arms[0], variants: arms.slice(1), durationDays: 0 });
+    const totals = Array.from({ length: armCount }, (_, a) => ({
+        visitors: segments.reduce((sum, segment) => sum + segment.arms[a].visitors, 0),
+        conversions: segments.reduce((sum, segment) => sum + segment.arms[a].conversions, 0),
+    }));
+    const pooled = analyze(totals);
+    if (!pooled) return null;
+
+    const heterogeneity: (Heterogeneity | null)[] = [];
+    const paradoxes: SimpsonsParadox[] = [];
+    for (let v = 1; v < armCount; v++) {
+        const label = variantLabel(v - 1);
+        const estimates = segments.map(segment => difference(segment.arms[0], segment.arms[v])).filter(estimate => estimate !== null);
+        const test = cochranQ(label, estimates);
+        heterogeneity.push(test);
+
+        const pooledDifference = totals[v].conversions / totals[v].visitors - totals[0].conversions / totals[0].visitors;
+        if (test && pooledDifference * test.weightedDifference < 0) {
+            paradoxes.push({ label, pooledDifference, weightedDifference: test.weightedDifference });
+        }
+    }
+
+    return {
+        segments: segments.map(segment => ({ name: segment.name, result: analyze(segment.arms) })),
+        pooled,
+        heterogeneity,
+        paradoxes,
+        trafficMix: trafficMix(segments),
+    };
+};
+
+/** Segment rows as parsed from text: the arms in order of first appearance, the first being the control. */
+export type ParsedSegments = { armNames: string[]; segments: SegmentCounts[]; errors: string[] };
+
+const SEGMENT_COLUMNS = ['segment', 'variant', 'visitors', 'conversions'] as const;
+
+/**
+ * Parses rows of `segment, variant, visitors, conversions` from CSV, TSV or semicolon-separated text.
+ * A header row is optional. Every segment must list every variant once.
+ */
+export const parseSegmentData = (text: string): ParsedSegments => {
+    const armNames: string[] = [];
+    const counts = new Map<string, Map<string, ArmCounts>>();
+
+    const errors = readTable(text, SEGMENT_COLUMNS, 2, ([segment, variant, visitorsCell, conversionsCell]) => {
+        const visitors = Number(visitorsCell);
+        const conversions = Number(conversionsCell);
+
+        if (segment === '') return 'segment name is empty.';
+        if (variant === '') return 'variant name is empty.';
+        if (visitorsCell === '' || !Number.isInteger(visitors) || visitors < 0) return `visitors "${visitorsCell}" must be a whole number of 0 or more.`;
+        if (conversionsCell === '' || !Number.isInteger(conversions) || conversions < 0) return `conversions "${conversionsCell}" must be a whole number of 0 or more.`;
+        if (conversions > visitors) return `conversions (${conversions}) cannot exceed visitors (${visitors}).`;
+        if (counts.get(segment)?.has(variant)) return `duplicate row for variant "${variant}" in segment "${segment}".`;
+
+        if (!armNames.includes(variant)) armNames.push(variant);
+        if (!counts.has(segment)) counts.set(segment, new Map());
+        counts.get(segment)?.set(variant, { visitors, conversions });
+        return null;
+    });
+
+    if (errors.length === 0 && counts.size === 0) errors.push('No data rows found.');
+    if (errors.length === 0 && armNames.length < 2) errors.push('At least two variants are needed (the first one listed is the control).');
+    if (errors.length === 0 && armNames.length > MAX_VARIANTS + 1) errors.push(`At most ${MAX_VARIANTS + 1} variants are supported.`);
+
+    const segments: SegmentCounts[] = [];
+    counts.forEach((arms, name) => {
+        const missing = armNames.filter(arm => !arms.has(arm));
+        if (missing.length > 0) errors.push(`Segment "${name}" has no row for ${missing.map(arm => `"${arm}"`).join(', ')}.`);
+        else segments.push({ name, arms: armNames.map(arm => arms.get(arm) as ArmCounts) });
+    });
+
+    return errors.length > 0 ? { armNames, segments: [], errors } : { armNames, segments, errors };
+};
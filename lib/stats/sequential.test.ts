@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { sequentialBoundaries, sequentialDesign, sequentialLook } from './sequential';
+
+// Published Lan-DeMets boundaries for five equally spaced looks, two-sided alpha = 0.05
+// (Jennison & Turnbull, 2000; matches gsDesign and ldbounds).
+const fractions = [0.2, 0.4, 0.6, 0.8, 1];
+
+describe('sequentialBoundaries', () => {
+    it("matches O'Brien-Fleming-type spending", () => {
+        const expected = [4.877, 3.357, 2.680, 2.290, 2.031];
+        sequentialBoundaries(fractions, 0.05, true, 'obrien-fleming').forEach((b, i) => expect(b).toBeCloseTo(expected[i], 2));
+    });
+
+    it('matches Pocock-type spending', () => {
+        const expected = [2.438, 2.427, 2.410, 2.397, 2.386];
+        sequentialBoundaries(fractions, 0.05, true, 'pocock').forEach((b, i) => expect(b).toBeCloseTo(expected[i], 2));
+    });
+
+    it('reduces to the fixed-horizon critical value for a single look', () => {
+        expect(sequentialBoundaries([1], 0.05, true, 'obrien-fleming')[0]).toBeCloseTo(1.95996, 4);
+    });
+});
+
+describe('sequentialLook', () => {
+    const design = sequentialDesign(5, 0.95, 'two-sided', 'obrien-fleming', 1)!;
+
+    it('stops for efficacy once the boundary is crossed', () => {
+        expect(sequentialLook(design, 2, 3.5, 'two-sided').decision).toBe('efficacy');
+        expect(sequentialLook(design, 1, 3.5, 'two-sided').decision).toBe('continue');
+    });
+
+    it('stops for futility at the final look', () => {
+        expect(sequentialLook(design, 5, 1.5, 'two-sided').decision).toBe('futility');
+    });
+
+    it('rejects invalid designs', () => {
+        expect(sequentialDesign(0, 0.95, 'two-sided', 'pocock', 1)).toBeNull();
+    });
+});
@@ -0,0 +1,130 @@
+import { standardNormalCdf, standardNormalInverseCdf, standardNormalPdf } from './distributions';
+import { Hypothesis } from './hypothesis';
+
+// Group-sequential testing: Lan-DeMets alpha spending with efficacy and futility stopping.
+
+export type AnalysisType = 'fixed-horizon' | 'sequential';
+export type SpendingFunction = 'obrien-fleming' | 'pocock';
+export type SequentialDecision = 'efficacy' | 'futility' | 'continue';
+
+export const ANALYSIS_TYPES: readonly AnalysisType[] = ['fixed-horizon', 'sequential'];
+export const SPENDING_FUNCTIONS: readonly SpendingFunction[] = ['obrien-fleming', 'pocock'];
+
+/** Equally spaced looks and their efficacy boundaries on the Z scale. */
+export type SequentialDesign = { fractions: number[]; boundaries: number[] };
+
+export type SequentialLookResult = {
+    /** Z in the direction of the alternative (|Z| for two-sided tests). */
+    z: number;
+    conditionalPower: number;
+    decision: SequentialDecision;
+};
+
+export const MAX_LOOKS = 20;
+export const FUTILITY_CONDITIONAL_POWER = 0.1; // stop for futility below 10% conditional power
+
+// Lan-DeMets alpha spending (one-sided): cumulative alpha used by information fraction t.
+export const alphaSpent = (t: number, alpha: number, spending: SpendingFunction): number => {
+    if (t <= 0) return 0;
+    if (t >= 1) return alpha;
+    if (spending === 'pocock') return alpha * Math.log(1 + (Math.E - 1) * t);
+    return 2 * (1 - standardNormalCdf(standardNormalInverseCdf(1 - alpha / 2) / Math.sqrt(t)));
+};
+
+// Efficacy boundaries (Z scale) for looks at the given information fractions, found by
+// recursive numerical integration of the score process over the continuation region.
+export const sequentialBoundaries = (fractions: number[], alpha: number, twoSided: boolean, spending: SpendingFunction): number[] => {
+    const GRID_POINTS = 301; // odd, for Simpson's rule
+    const boundaries: number[] = [];
+    let grid: number[] = [];
+    let weightedDensity: number[] = [];
+    let previousT = 0;
+
+    fractions.forEach((t, k) => {
+        // Two-sided designs spend alpha/2 in each tail
+        const spent = (fraction: number) => (twoSided ? 2 * alphaSpent(fraction, alpha / 2, spending) : alphaSpent(fraction, alpha, spending));
+        const increment = spent(t) - spent(previousT);
+        const stepSd = Math.sqrt(t - previousT);
+
+        const crossingProbability = (boundary: number) => {
+            if (k === 0) {
+                const tail = 1 - standardNormalCdf(boundary);
+                return twoSided ? 2 * tail : tail;
+            }
+            const upper = boundary * Math.sqrt(t);
+            let total = 0;
+            for (let i = 0; i < grid.length; i++) {
+                const up = 1 - standardNormalCdf((upper - grid[i]) / stepSd);
+                const down = twoSided ? standardNormalCdf((-upper - grid[i]) / stepSd) : 0;
+                total += weightedDensity[i] * (up + down);
+            }
+            return total;
+        };
+
+        let low = 0;
+        let high = 12;
+        for (let i = 0; i < 60; i++) {
+            const mid = (low + high) / 2;
+            if (crossingProbability(mid) > increment) low = mid;
+            else high = mid;
+        }
+        boundaries.push(high);
+
+        // Density of the score S_k = Z_k·√t_k on the region where the test has not stopped
+        const upperS = high * Math.sqrt(t);
+        const lowerS = twoSided ? -upperS : -10 * Math.sqrt(t);
+        const h = (upperS - lowerS) / (GRID_POINTS - 1);
+        const nextGrid: number[] = [];
+        const nextWeightedDensity: number[] = [];
+        for (let j = 0; j < GRID_POINTS; j++) {
+            const sValue = lowerS + j * h;
+            let density = 0;
+            if (k === 0) {
+                density = standardNormalPdf(sValue / Math.sqrt(t)) / Math.sqrt(t);
+            } else {
+                for (let i = 0; i < grid.length; i++) {
+                    density += weightedDensity[i] * standardNormalPdf((sValue - grid[i]) / stepSd) / stepSd;
+                }
+            }
+            const simpsonWeight = (h / 3) * (j === 0 || j === GRID_POINTS - 1 ? 1 : j % 2 === 1 ? 4 : 2);
+            nextGrid.push(sValue);
+            nextWeightedDensity.push(density * simpsonWeight);
+        }
+        grid = nextGrid;
+        weightedDensity = nextWeightedDensity;
+        previousT = t;
+    });
+
+    return boundaries;
+};
+
+// Conditional power of reaching the final boundary if the current trend continues.
+export const conditionalPower = (z: number, t: number, finalBoundary: number): number => {
+    if (t >= 1) return z >= finalBoundary ? 1 : 0;
+    const score = z * Math.sqrt(t);
+    const drift = z / Math.sqrt(t);
+    return 1 - standardNormalCdf((finalBoundary - score - drift * (1 - t)) / Math.sqrt(1 - t));
+};
+
+/**
+ * Design with equally spaced looks. `comparisons` variations share the alpha through a Bonferroni split,
+ * which keeps the family-wise error under control. Returns null for an invalid design.
+ */
+export const sequentialDesign = (plannedLooks: number, confidenceLevel: number, hypothesis: Hypothesis, spending: SpendingFunction, comparisons: number): SequentialDesign | null => {
+    if (!Number.isInteger(plannedLooks) || plannedLooks < 1 || plannedLooks > MAX_LOOKS || !(confidenceLevel > 0) || !(confidenceLevel < 1)) return null;
+    const alpha = (1 - confidenceLevel) / comparisons;
+    const fractions = Array.from({ length: plannedLooks }, (_, i) => (i + 1) / plannedLooks);
+    return { fractions, boundaries: sequentialBoundaries(fractions, alpha, hypothesis === 'two-sided', spending) };
+};
+
+/** Stopping decision for one comparison at the given (1-based) look. */
+export const sequentialLook = (design: SequentialDesign, look: number, zScore: number, hypothesis: Hypothesis): SequentialLookResult => {
+    const { fractions, boundaries } = design;
+    const looks = fractions.length;
+    const z = hypothesis === 'two-sided' ? Math.abs(zScore) : hypothesis === 'less' ? -zScore : zScore;
+    const power = conditionalPower(z, fractions[look - 1], boundaries[looks - 1]);
+    let decision: SequentialDecision = 'continue';
+    if (z >= boundaries[look - 1]) decision = 'efficacy';
+    else if (look === looks || power < FUTILITY_CONDITIONAL_POWER) decision = 'futility';
+    return { z, conditionalPower: power, decision };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { readLines, readTable } from './table';
+
+const read = (text: string) => {
+    const rows: string[][] = [];
+    const errors = readTable(text, ['name', 'value'], 1, cells => {
+        rows.push(cells);
+        return cells[0] === '' ? 'name is empty.' : null;
+    });
+    return { rows, errors };
+};
+
+describe('readTable', () => {
+    it('takes the delimiter from the first line and strips quotes', () => {
+        expect(read('"a";1\n\nb;2').rows).toEqual([['a', '1'], ['b', '2']]);
+        expect(read('a,b\t1').rows).toEqual([['a,b', '1']]);
+    });
+
+    it('keeps the delimiter and doubled quotes inside quoted cells', () => {
+        expect(readLines('"a, b", 1\n\n"say ""hi""",2')).toEqual([
+            { lineNumber: 1, cells: ['a, b', '1'] },
+            { lineNumber: 3, cells: ['say "hi"', '2'] },
+        ]);
+    });
+
+    it('reorders the columns named in a header row', () => {
+        expect(read('Value,Name\n1,a').rows).toEqual([['a', '1']]);
+    });
+
+    it('numbers the errors by line', () => {
+        expect(read('name,total\nb,1').errors).toEqual(['Line 1: header must name the columns name and value.']);
+        expect(read('a,1\nb\n,3').errors).toEqual(['Line 2: expected 2 columns (name, value) but found 1.', 'Line 3: name is empty.']);
+    });
+});
@@ -0,0 +1,85 @@
+// Reading of pasted or uploaded tables, shared by the daily, segment and per-user data parsers and the batch CLI.
+
+/** One non-blank line of a table: its number, counting from 1, and its trimmed cells. */
+export type TableLine = { lineNumber: number; cells: string[] };
+
+// Splits on the delimiter outside double quotes. A quoted cell may contain the delimiter, and "" in it stands for one quote.
+const splitCells = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell.trim() === '') {
+            cell = '';
+            quoted = true;
+        } else if (char === delimiter) {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+/** Splits CSV, TSV or semicolon-separated text into its non-blank lines, with the delimiter taken from the first of them. */
+export const readLines = (text: string): TableLine[] => {
+    const lines = text.split(/\r?\n/);
+    const firstLine = lines.find(line => line.trim() !== '') ?? '';
+    const delimiter = firstLine.includes('\t') ? '\t' : firstLine.includes(';') ? ';' : ',';
+    return lines.flatMap((line, i) => (line.trim() === '' ? [] : [{ lineNumber: i + 1, cells: splitCells(line, delimiter) }]));
+};
+
+const listColumns = (columns: readonly string[]) => `${columns.slice(0, -1).join(', ')} and ${columns[columns.length - 1]}`;
+
+/**
+ * Reads a table split into lines by `readLines`. A header row naming every column is optional, and the columns can
+ * then be in any order; without it, the first line is data when its `numericColumn` cell is a number. `readRow` gets the cells of each data row in the order of `columns` and
+ * returns an error for that row, if any. Returns every error, prefixed with its line number.
+ */
+export const readTable = (
+    text: string,
+    columns: readonly string[],
+    numericColumn: number,
+    readRow: (cells: string[]) => string | null,
+): string[] => {
+    const errors: string[] = [];
+    let columnIndex = columns.map((_, i) => i);
+    let headerSeen = false;
+
+    readLines(text).forEach(({ lineNumber, cells }) => {
+        if (!headerSeen) {
+            headerSeen = true;
+            const lowered = cells.map(cell => cell.toLowerCase());
+            if (columns.every(column => lowered.includes(column))) {
+                columnIndex = columns.map(column => lowered.indexOf(column));
+                return;
+            }
+            if (isNaN(Number(cells[numericColumn]))) {
+                errors.push(`Line ${lineNumber}: header must name the columns ${listColumns(columns)}.`);
+                return;
+            }
+        }
+
+        if (cells.length < columns.length) {
+            errors.push(`Line ${lineNumber}: expected ${columns.length} columns (${columns.join(', ')}) but found ${cells.length}.`);
+            return;
+        }
+
+        const error = readRow(columnIndex.map(index => cells[index] ?? ''));
+        if (error) errors.push(`Line ${lineNumber}: ${error}`);
+    });
+
+    return errors;
+};